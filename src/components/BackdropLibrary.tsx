@@ -4,7 +4,17 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/components/ui/use-toast";
-import { Trash2, ImageIcon, Download } from "lucide-react";
+import { Trash2, ImageIcon, Download, Ruler } from "lucide-react";
+import { FloorLineEditor } from "@/components/FloorLineEditor";
+import { ScaleCalibrationInput } from "@/components/ScaleCalibrationInput";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,12 +27,14 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
-interface Backdrop {
+export interface Backdrop {
   id: string;
   name: string;
   storage_path: string;
   file_size: number;
   dimensions: { width: number; height: number };
+  floor_y_px: number | null;
+  pixels_per_cm: number | null;
   created_at: string;
 }
 
@@ -42,6 +54,10 @@ export const BackdropLibrary = ({
   const [backdrops, setBackdrops] = useState<Backdrop[]>([]);
   const [loading, setLoading] = useState(true);
   const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+  const [editingBackdrop, setEditingBackdrop] = useState<Backdrop | null>(null);
+  const [editingFloorY, setEditingFloorY] = useState<number | null>(null);
+  const [editingPixelsPerCm, setEditingPixelsPerCm] = useState<number | null>(null);
+  const [savingFloorLine, setSavingFloorLine] = useState(false);
   const { toast } = useToast();
 
   const fetchBackdrops = async () => {
@@ -118,6 +134,42 @@ export const BackdropLibrary = ({
     }
   };
 
+  const openFloorLineEditor = (backdrop: Backdrop) => {
+    setEditingBackdrop(backdrop);
+    setEditingFloorY(backdrop.floor_y_px);
+    setEditingPixelsPerCm(backdrop.pixels_per_cm);
+  };
+
+  const handleSaveFloorLine = async () => {
+    if (!editingBackdrop) return;
+
+    setSavingFloorLine(true);
+    try {
+      const { error } = await supabase
+        .from('backdrop_library')
+        .update({ floor_y_px: editingFloorY, pixels_per_cm: editingPixelsPerCm })
+        .eq('id', editingBackdrop.id);
+
+      if (error) throw error;
+
+      setBackdrops(prev => prev.map(b => b.id === editingBackdrop.id ? { ...b, floor_y_px: editingFloorY, pixels_per_cm: editingPixelsPerCm } : b));
+      toast({
+        title: "Calibration Saved",
+        description: `Updated the floor line and scale for "${editingBackdrop.name}".`
+      });
+      setEditingBackdrop(null);
+    } catch (error) {
+      console.error('Error saving backdrop calibration:', error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save calibration. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingFloorLine(false);
+    }
+  };
+
   const handleSelect = (backdrop: Backdrop) => {
     if (onSelect && imageUrls[backdrop.id]) {
       onSelect(backdrop, imageUrls[backdrop.id]);
@@ -159,6 +211,7 @@ export const BackdropLibrary = ({
   }
 
   return (
+    <>
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
       {backdrops.map((backdrop) => (
         <Card 
@@ -193,9 +246,21 @@ export const BackdropLibrary = ({
                 <span>
                   {backdrop.dimensions.width} × {backdrop.dimensions.height}
                 </span>
-                <Badge variant="secondary" className="text-xs">
-                  {(backdrop.file_size / (1024 * 1024)).toFixed(1)} MB
-                </Badge>
+                <div className="flex gap-1">
+                  {backdrop.floor_y_px !== null && (
+                    <Badge variant="outline" className="text-xs">
+                      Floor {backdrop.floor_y_px}px
+                    </Badge>
+                  )}
+                  {backdrop.pixels_per_cm !== null && (
+                    <Badge variant="outline" className="text-xs">
+                      {backdrop.pixels_per_cm} px/cm
+                    </Badge>
+                  )}
+                  <Badge variant="secondary" className="text-xs">
+                    {(backdrop.file_size / (1024 * 1024)).toFixed(1)} MB
+                  </Badge>
+                </div>
               </div>
 
               {allowDelete && !selectionMode && (
@@ -216,6 +281,15 @@ export const BackdropLibrary = ({
                     <Download className="h-4 w-4 mr-2" />
                     Download
                   </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openFloorLineEditor(backdrop)}
+                    disabled={!imageUrls[backdrop.id]}
+                  >
+                    <Ruler className="h-4 w-4" />
+                  </Button>
                   
                   <AlertDialog>
                     <AlertDialogTrigger asChild>
@@ -258,5 +332,38 @@ export const BackdropLibrary = ({
         </Card>
       ))}
     </div>
+
+    <Dialog open={!!editingBackdrop} onOpenChange={(open) => !open && setEditingBackdrop(null)}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Calibrate Backdrop</DialogTitle>
+          <DialogDescription>
+            Mark where products should stand on "{editingBackdrop?.name}" and how large a centimetre is at that line.
+          </DialogDescription>
+        </DialogHeader>
+        {editingBackdrop && imageUrls[editingBackdrop.id] && (
+          <FloorLineEditor
+            imageUrl={imageUrls[editingBackdrop.id]}
+            value={editingFloorY}
+            onChange={setEditingFloorY}
+            disabled={savingFloorLine}
+          />
+        )}
+        <ScaleCalibrationInput
+          value={editingPixelsPerCm}
+          onChange={setEditingPixelsPerCm}
+          disabled={savingFloorLine}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setEditingBackdrop(null)} disabled={savingFloorLine}>
+            Cancel
+          </Button>
+          <Button onClick={handleSaveFloorLine} disabled={savingFloorLine}>
+            {savingFloorLine ? "Saving..." : "Save Calibration"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+    </>
   );
 };
\ No newline at end of file
@@ -2,36 +2,111 @@ import React, { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Upload, Move, RotateCw, RotateCcw, ArrowRight, AlertCircle, Zap, Library } from "lucide-react";
-import { SubjectPlacement } from "@/lib/canvas-utils";
+import { Upload, Move, RotateCw, RotateCcw, ArrowRight, AlertCircle, Zap, Library, Copy, CopyCheck, BringToFront, SendToBack, FlipHorizontal, Ruler, Undo2, Loader2 } from "lucide-react";
+import {
+  SubjectPlacement,
+  PhysicalDimensions,
+  SubjectBounds,
+  getImageDimensions as getDataUrlDimensions,
+  getOpaqueBounds,
+  getPlacementRect,
+  rotateSubjectBounds,
+  scaleForPhysicalSize,
+  snapPlacementToFloor,
+  snapToGuide,
+  PLACEMENT_GUIDES
+} from "@/lib/canvas-utils";
+import { hasSubjectTransform } from "@/lib/pixel-ops";
+import { DEFAULT_DEPTH_OF_FIELD, DepthOfFieldSettings, SetShotLayout, createPositionedCompositions } from "@/lib/composition-document";
+import { DEFAULT_REFLECTION_OPTIONS, ReflectionOptions } from "@/lib/reflection-utils";
 import { processAndCompressImage, getImageDimensions } from "@/lib/image-resize-utils";
 import { useToast } from "@/hooks/use-toast";
 import { BackdropLibrary } from "@/components/BackdropLibrary";
-import { rotateImageClockwise, rotateImageCounterClockwise } from "@/lib/image-rotation-utils";
+import { ScaleCalibrationInput } from "@/components/ScaleCalibrationInput";
+import { ReflectionControls } from "@/components/ReflectionControls";
+import { detectStraightenAngle, rotateImageClockwise, rotateImageCounterClockwise } from "@/lib/image-rotation-utils";
+import { CompositionPreview } from "@/components/CompositionPreview";
+import { AssetId, assetStore, resolveAssetUrl } from "@/lib/asset-store";
 
 interface BackdropPositioningProps {
-  cutoutImages: string[]; // Data URLs of cut-out subjects (with shadows)
-  cleanSubjects?: string[]; // Data URLs of clean subjects (for CSS reflection preview)
+  cutoutImages: AssetId[]; // Cut-out subjects (with shadows)
+  cleanSubjects?: AssetId[]; // Clean subjects, the reflection source
+  subjectBounds?: Array<SubjectBounds | undefined>; // Where each subject sits in its padded shadow image, same order as cutoutImages
+  shadowGroundTints?: Array<number | undefined>; // Ground tint of each baked shadow, so the preview tints it like the render
+  productDimensions?: PhysicalDimensions; // Default real-world size for every product, e.g. from ProductConfiguration
+  initialBackdrop?: AssetId; // Previously chosen backdrop, e.g. from a resumed session
+  initialPlacements?: SubjectPlacement[]; // Previously confirmed placements, same order as cutoutImages
+  initialFloorY?: number | null;
+  initialReflectionOptions?: ReflectionOptions;
+  initialSetShot?: SetShotLayout | null;
+  initialDepthOfField?: DepthOfFieldSettings | null;
   onPositioningComplete: (
-    backdrop: string, 
-    placement: SubjectPlacement, 
+    backdrop: AssetId, 
+    placements: SubjectPlacement[], // One placement per cutout image, same order
     addBlur: boolean, 
-    rotatedSubjects?: string[]
+    rotatedSubjects?: AssetId[],
+    floorY?: number | null, // Backdrop floor line in pixels, when known
+    reflectionOptions?: ReflectionOptions,
+    subjectBounds?: Array<SubjectBounds | undefined>, // Rotated along with the subjects
+    rotatedCleanSubjects?: AssetId[],
+    setShot?: SetShotLayout | null, // Set when every product goes onto one backdrop
+    depthOfField?: DepthOfFieldSettings | null // Backdrop blur, set when addBlur is
   ) => void;
   onBack: () => void;
 }
 
+const DEFAULT_PLACEMENT: SubjectPlacement = {
+  x: 0.5, // center
+  y: 0.7, // slightly below center (typical product placement)
+  scale: 0.8 // 80% of backdrop width
+};
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 1;
+const MAX_ROTATION = 45; // degrees either way, the range of the rotation slider
+const SNAP_THRESHOLD = 0.015; // share of the backdrop within which a dragged product snaps to a guide
+const NUDGE_STEP = 0.005; // arrow key step as a share of the backdrop; Shift moves ten times as far
+
+// Guides a dragged product is currently snapped to: x/y are 0-1 lines, floor is the backdrop floor line
+interface ActiveGuides {
+  x: number | null;
+  y: number | null;
+  floor: boolean;
+}
+
+const NO_GUIDES: ActiveGuides = { x: null, y: null, floor: false };
+
+// Pointers on the preview and the placement they started from; restarted whenever a finger is added or lifted
+interface PreviewGesture {
+  index: number;
+  placement: SubjectPlacement;
+  pointers: Map<number, { x: number; y: number }>;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
 export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
   cutoutImages,
   cleanSubjects = [],
+  subjectBounds = [],
+  shadowGroundTints = [],
+  productDimensions,
+  initialBackdrop,
+  initialPlacements,
+  initialFloorY = null,
+  initialReflectionOptions = DEFAULT_REFLECTION_OPTIONS,
+  initialSetShot = null,
+  initialDepthOfField = null,
   onPositioningComplete,
   onBack
 }) => {
-  const [backdrop, setBackdrop] = useState<string>("");
+  const [backdrop, setBackdrop] = useState<AssetId>(() => initialBackdrop && assetStore.has(initialBackdrop) ? initialBackdrop : "");
   const [backdropFile, setBackdropFile] = useState<File | null>(null);
   const [backdropAnalysis, setBackdropAnalysis] = useState<{
     needsOptimization: boolean;
@@ -41,26 +116,262 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
   } | null>(null);
   const [showOptimization, setShowOptimization] = useState(false);
   const [isOptimizing, setIsOptimizing] = useState(false);
-  const [addBlur, setAddBlur] = useState(false);
-  const [placement, setPlacement] = useState<SubjectPlacement>({
-    x: 0.5, // center
-    y: 0.7, // slightly below center (typical product placement)
-    scale: 0.8 // 80% of backdrop width
-  });
-  const [rotatedSubjects, setRotatedSubjects] = useState<string[]>(cutoutImages);
-  const [rotatedCleanSubjects, setRotatedCleanSubjects] = useState<string[]>(cleanSubjects);
+  const [addBlur, setAddBlur] = useState(!!initialDepthOfField);
+  const [depthOfField, setDepthOfField] = useState<DepthOfFieldSettings>(initialDepthOfField || DEFAULT_DEPTH_OF_FIELD);
+  const [placements, setPlacements] = useState<SubjectPlacement[]>(() => cutoutImages.map((_, index) => ({
+    ...(initialPlacements?.[index] || DEFAULT_PLACEMENT)
+  })));
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isSetShot, setIsSetShot] = useState(!!initialSetShot && cutoutImages.length > 1);
+  const [zOrder, setZOrder] = useState<number[]>(() => initialSetShot?.order.length === cutoutImages.length
+    ? [...initialSetShot.order]
+    : cutoutImages.map((_, index) => index));
+  const [subjectEffects, setSubjectEffects] = useState<SetShotLayout['subjects']>(() => cutoutImages.map((_, index) => ({
+    shadow: true,
+    reflection: true,
+    ...initialSetShot?.subjects[index]
+  })));
+  const [backdropSize, setBackdropSize] = useState<{ width: number; height: number } | null>(null);
+  const [floorY, setFloorY] = useState<number | null>(initialFloorY);
+  const [snapToFloor, setSnapToFloor] = useState(initialFloorY !== null);
+  const [pixelsPerCm, setPixelsPerCm] = useState<number | null>(null);
+  const [sizeByDimensions, setSizeByDimensions] = useState(false);
+  const [productSizes, setProductSizes] = useState<PhysicalDimensions[]>(() => cutoutImages.map(() => ({ ...productDimensions })));
+  // Per subject: placed (bare subject) size, how far down it the lowest opaque row sits and how much of it is opaque
+  const [subjectMetrics, setSubjectMetrics] = useState<Array<{
+    width: number;
+    height: number;
+    contactRatio: number;
+    widthRatio: number;
+    heightRatio: number;
+  } | null>>([]);
+  const [rotatedSubjects, setRotatedSubjects] = useState<AssetId[]>(cutoutImages);
+  const [rotatedCleanSubjects, setRotatedCleanSubjects] = useState<AssetId[]>(cleanSubjects);
+  const [rotatedSubjectBounds, setRotatedSubjectBounds] = useState<Array<SubjectBounds | undefined>>(subjectBounds);
   const [isRotating, setIsRotating] = useState(false);
+  const [reflectionOptions, setReflectionOptions] = useState<ReflectionOptions>(initialReflectionOptions);
+  const [isStraightening, setIsStraightening] = useState(false);
   
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const subjectRef = useRef<HTMLImageElement>(null);
-  const reflectionRef = useRef<HTMLImageElement>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const [snapToGuides, setSnapToGuides] = useState(true);
+  const [activeGuides, setActiveGuides] = useState<ActiveGuides>(NO_GUIDES);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<PreviewGesture | null>(null);
+  const pressedIndexRef = useRef<number | null>(null); // Set-shot product pressed before the preview sees the pointer
+  const placementsRef = useRef(placements);
+  placementsRef.current = placements;
   const { toast } = useToast();
 
-  const firstSubject = rotatedSubjects[0]; // Use first rotated image for positioning
-  const firstCleanSubject = rotatedCleanSubjects.length > 0 ? rotatedCleanSubjects[0] : null;
+  const activeSubject = rotatedSubjects[activeIndex];
+  const activeCleanSubject = rotatedCleanSubjects[activeIndex] || null;
+  const activeEffects = subjectEffects[activeIndex];
+  const canSnapToFloor = floorY !== null && !!backdropSize;
+  const isFloorSnapped = snapToFloor && canSnapToFloor;
+  const isSizedByDimensions = sizeByDimensions && pixelsPerCm !== null && !!backdropSize;
+
+  // Scale from real dimensions, null when this product has no usable size
+  const getPhysicalScale = (index: number): number | null => {
+    const metrics = subjectMetrics[index];
+    const size = productSizes[index];
+    if (!isSizedByDimensions || !metrics || !size) return null;
+    return scaleForPhysicalSize(
+      size,
+      pixelsPerCm,
+      metrics.width,
+      metrics.height,
+      metrics.widthRatio,
+      metrics.heightRatio,
+      backdropSize.width
+    );
+  };
+
+  // Derived scale (real dimensions) and vertical position (floor mode) never overwrite stored placements
+  const effectivePlacements = placements.map((stored, index) => {
+    const metrics = subjectMetrics[index];
+    const physicalScale = getPhysicalScale(index);
+    const p = physicalScale !== null ? { ...stored, scale: physicalScale } : stored;
+    if (!isFloorSnapped || !metrics) return p;
+    return snapPlacementToFloor(
+      p,
+      metrics.width,
+      metrics.height,
+      metrics.contactRatio,
+      backdropSize.width,
+      backdropSize.height,
+      floorY
+    );
+  });
+  const placement = effectivePlacements[activeIndex] || DEFAULT_PLACEMENT;
+  const activeSize = productSizes[activeIndex] || {};
+  const isActiveScaleDerived = getPhysicalScale(activeIndex) !== null;
+
+  const updateActiveSize = (key: keyof PhysicalDimensions, value: string) => {
+    const parsed = parseFloat(value);
+    setProductSizes(prev => prev.map((size, index) => index === activeIndex ? { ...size, [key]: parsed > 0 ? parsed : null } : size));
+  };
+
+  const setPlacementAt = (target: number, update: (prev: SubjectPlacement) => SubjectPlacement) => {
+    setPlacements(prev => prev.map((p, index) => index === target ? update(p) : p));
+  };
+
+  // Placement edits only ever touch the image currently selected in the filmstrip
+  const setPlacement = (update: (prev: SubjectPlacement) => SubjectPlacement) => {
+    setPlacementAt(activeIndex, update);
+  };
+
+  // Numeric inputs are percentages; y is locked while snapped to the floor and scale while sized by dimensions
+  const updatePlacementValue = (key: 'x' | 'y' | 'scale', value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed)) return;
+    const fraction = key === 'scale' ? clamp(parsed / 100, MIN_SCALE, MAX_SCALE) : clamp(parsed / 100, 0, 1);
+    setPlacement(prev => ({ ...prev, [key]: fraction }));
+  };
+
+  // Snap a dragged centre to the centre and thirds lines, and the product's base to the floor line
+  const snapPosition = (index: number, x: number, y: number): { x: number; y: number; guides: ActiveGuides } => {
+    const snappedX = snapToGuide(x, PLACEMENT_GUIDES, SNAP_THRESHOLD);
+    if (isFloorSnapped) return { x: snappedX.value, y, guides: { ...NO_GUIDES, x: snappedX.guide } };
+
+    const snappedY = snapToGuide(y, PLACEMENT_GUIDES, SNAP_THRESHOLD);
+    const metrics = subjectMetrics[index];
+    if (floorY !== null && backdropSize && metrics) {
+      const onFloor = snapPlacementToFloor(
+        effectivePlacements[index] || DEFAULT_PLACEMENT,
+        metrics.width,
+        metrics.height,
+        metrics.contactRatio,
+        backdropSize.width,
+        backdropSize.height,
+        floorY
+      ).y;
+      const floorDistance = Math.abs(onFloor - y);
+      if (floorDistance <= SNAP_THRESHOLD && (snappedY.guide === null || floorDistance < Math.abs(snappedY.guide - y))) {
+        return { x: snappedX.value, y: onFloor, guides: { x: snappedX.guide, y: null, floor: true } };
+      }
+    }
+
+    return { x: snappedX.value, y: snappedY.value, guides: { x: snappedX.guide, y: snappedY.guide, floor: false } };
+  };
+
+  const startGesture = (index: number) => {
+    gestureRef.current = {
+      index,
+      placement: { ...(placementsRef.current[index] || DEFAULT_PLACEMENT) },
+      pointers: new Map(pointersRef.current)
+    };
+  };
+
+  const handlePreviewPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    // A second finger joins the gesture on the product the first one picked up
+    startGesture(gestureRef.current?.index ?? pressedIndexRef.current ?? activeIndex);
+    pressedIndexRef.current = null;
+  };
+
+  // One pointer drags; two pinch to scale, twist to rotate and move together to drag
+  const handlePreviewPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const gesture = gestureRef.current;
+    if (!gesture || !pointersRef.current.has(e.pointerId)) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const [startA, startB] = [...gesture.pointers.values()];
+    const [nowA, nowB] = [...pointersRef.current.values()];
+    const base = gesture.placement;
+    const next: SubjectPlacement = { ...base };
+    let dx = nowA.x - startA.x;
+    let dy = nowA.y - startA.y;
+
+    if (startB && nowB) {
+      dx = (nowA.x + nowB.x - startA.x - startB.x) / 2;
+      dy = (nowA.y + nowB.y - startA.y - startB.y) / 2;
+      const startDistance = Math.hypot(startB.x - startA.x, startB.y - startA.y);
+      const distance = Math.hypot(nowB.x - nowA.x, nowB.y - nowA.y);
+      if (startDistance > 0 && getPhysicalScale(gesture.index) === null) {
+        next.scale = clamp(base.scale * (distance / startDistance), MIN_SCALE, MAX_SCALE);
+      }
+      const twist = Math.atan2(nowB.y - nowA.y, nowB.x - nowA.x) - Math.atan2(startB.y - startA.y, startB.x - startA.x);
+      const twistDegrees = ((((twist * 180) / Math.PI) + 540) % 360) - 180;
+      next.rotation = clamp((base.rotation || 0) + twistDegrees, -MAX_ROTATION, MAX_ROTATION);
+    }
+
+    const x = clamp(base.x + dx / rect.width, 0, 1);
+    const y = clamp(base.y + dy / rect.height, 0, 1);
+    // Alt drags freely past the guides
+    const snapped = snapToGuides && !e.altKey ? snapPosition(gesture.index, x, y) : { x, y, guides: NO_GUIDES };
+    next.x = snapped.x;
+    // Vertical position is locked to the floor line while snapping
+    next.y = isFloorSnapped ? base.y : snapped.y;
+
+    setActiveGuides(snapped.guides);
+    setPlacementAt(gesture.index, () => next);
+  };
+
+  const handlePreviewPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointersRef.current.delete(e.pointerId)) return;
+    if (pointersRef.current.size > 0 && gestureRef.current) {
+      startGesture(gestureRef.current.index);
+      return;
+    }
+    gestureRef.current = null;
+    setActiveGuides(NO_GUIDES);
+  };
+
+  const handlePreviewKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = e.shiftKey ? NUDGE_STEP * 10 : NUDGE_STEP;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step]
+    };
+    const move = moves[e.key];
+    if (!move) return;
+
+    e.preventDefault();
+    setPlacement(prev => ({
+      ...prev,
+      x: clamp(prev.x + move[0], 0, 1),
+      y: isFloorSnapped ? prev.y : clamp(prev.y + move[1], 0, 1)
+    }));
+  };
+
+  const isCustomPlacement = (index: number) => {
+    const p = placements[index];
+    return !!p && (p.x !== DEFAULT_PLACEMENT.x || p.y !== DEFAULT_PLACEMENT.y || p.scale !== DEFAULT_PLACEMENT.scale);
+  };
+
+  const applyPlacementToAll = () => {
+    setPlacements(prev => prev.map(() => ({ ...placement })));
+    toast({
+      title: "Placement applied to all",
+      description: `Using this placement for all ${rotatedSubjects.length} images`,
+    });
+  };
+
+  // Set shots stack products back to front; moving one swaps it with its neighbour in the stack
+  const moveActiveInStack = (direction: 1 | -1) => {
+    setZOrder(prev => {
+      const position = prev.indexOf(activeIndex);
+      const target = position + direction;
+      if (position < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[position], next[target]] = [next[target], next[position]];
+      return next;
+    });
+  };
+
+  const updateActiveEffect = (key: keyof SetShotLayout['subjects'][number], value: boolean) => {
+    setSubjectEffects(prev => prev.map((effects, index) => index === activeIndex ? { ...effects, [key]: value } : effects));
+  };
+
+  const copyPlacementFromPrevious = () => {
+    if (activeIndex === 0) return;
+    const previous = placements[activeIndex - 1];
+    setPlacement(() => ({ ...previous }));
+  };
 
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
@@ -70,6 +381,12 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  // Each upload, optimisation or library pick stores a new backdrop; the one it supersedes goes unless the workflow passed it in
+  const replaceBackdrop = (id: AssetId) => {
+    if (backdrop && backdrop !== initialBackdrop) assetStore.release(backdrop);
+    setBackdrop(id);
+  };
+
   const handleOptimizeBackdrop = async () => {
     if (!backdropFile || !backdropAnalysis) return;
     
@@ -84,23 +401,17 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
         finalSize: optimizedFile.size
       } : null);
       
-      // Load the optimized image
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          setBackdrop(e.target.result as string);
-          setShowOptimization(false);
-          
-          const sizeBefore = (backdropAnalysis.fileSize / 1024 / 1024).toFixed(1);
-          const sizeAfter = (optimizedFile.size / 1024 / 1024).toFixed(1);
-          
-          toast({
-            title: "Backdrop Optimized",
-            description: `Size reduced from ${sizeBefore}MB to ${sizeAfter}MB`,
-          });
-        }
-      };
-      reader.readAsDataURL(optimizedFile);
+      // Use the optimized image
+      replaceBackdrop(assetStore.put(optimizedFile));
+      setShowOptimization(false);
+      
+      const sizeBefore = (backdropAnalysis.fileSize / 1024 / 1024).toFixed(1);
+      const sizeAfter = (optimizedFile.size / 1024 / 1024).toFixed(1);
+      
+      toast({
+        title: "Backdrop Optimized",
+        description: `Size reduced from ${sizeBefore}MB to ${sizeAfter}MB`,
+      });
     } catch (error) {
       console.error('Error optimizing backdrop:', error);
       toast({
@@ -110,14 +421,8 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
       });
       
       // Fallback to original file
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          setBackdrop(e.target.result as string);
-          setShowOptimization(false);
-        }
-      };
-      reader.readAsDataURL(backdropFile);
+      replaceBackdrop(assetStore.put(backdropFile));
+      setShowOptimization(false);
     }
     setIsOptimizing(false);
   };
@@ -126,25 +431,93 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
     if (!backdropFile) return;
     
     // Use original file without optimization
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      if (e.target?.result) {
-        setBackdrop(e.target.result as string);
-        setShowOptimization(false);
+    replaceBackdrop(assetStore.put(backdropFile));
+    setShowOptimization(false);
+  };
+
+  useEffect(() => {
+    if (!backdrop) {
+      setBackdropSize(null);
+      return;
+    }
+    getDataUrlDimensions(backdrop)
+      .then(setBackdropSize)
+      .catch(error => console.error('Error reading backdrop dimensions:', error));
+  }, [backdrop]);
+
+  // Find each subject's floor contact row (from the clean cutout so drop shadows don't count)
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(rotatedSubjects.map(async (subject, index) => {
+      try {
+        // Placements size the bare subject, not the padding its shadow added
+        const size = await getDataUrlDimensions(subject);
+        const padding = rotatedSubjectBounds[index];
+        const bounds = await getOpaqueBounds(rotatedCleanSubjects[index] || subject);
+        if (!bounds) return null;
+        return {
+          width: size.width * (padding?.width ?? 1),
+          height: size.height * (padding?.height ?? 1),
+          contactRatio: (bounds.bottom + 1) / bounds.height,
+          widthRatio: (bounds.right - bounds.left + 1) / bounds.width,
+          heightRatio: (bounds.bottom - bounds.top + 1) / bounds.height
+        };
+      } catch (error) {
+        console.error(`Error measuring floor contact for subject ${index + 1}:`, error);
+        return null;
       }
+    })).then(metrics => {
+      if (!cancelled) setSubjectMetrics(metrics);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rotatedSubjects, rotatedCleanSubjects, rotatedSubjectBounds]);
+
+  // Hit box over the bare subject where the compositor draws it, for picking and dragging on the preview
+  const getSubjectBoxStyle = (index: number = activeIndex): React.CSSProperties => {
+    const metrics = subjectMetrics[index];
+    if (!metrics || !backdropSize) return { display: 'none' };
+    const rect = getPlacementRect(
+      backdropSize.width,
+      backdropSize.height,
+      metrics.width,
+      metrics.height,
+      effectivePlacements[index] || DEFAULT_PLACEMENT
+    );
+    return {
+      left: `${(rect.dx / backdropSize.width) * 100}%`,
+      top: `${(rect.dy / backdropSize.height) * 100}%`,
+      width: `${(rect.width / backdropSize.width) * 100}%`,
+      height: `${(rect.height / backdropSize.height) * 100}%`
     };
-    reader.readAsDataURL(backdropFile);
   };
 
-  useEffect(() => {
-    // Canvas is now only used for backward compatibility and final compositing
-    // Real-time preview is handled by CSS-based approach
-  }, [backdrop, firstSubject, placement]);
+  // The preview is drawn from the same document the final render is built from
+  const previewDoc = backdrop && backdropSize ? createPositionedCompositions({
+    backdrop,
+    floorY,
+    depthOfField: addBlur ? depthOfField : null,
+    subjects: rotatedSubjects.map((subject, index) => ({
+      name: `Product ${index + 1}`,
+      subject,
+      cleanSubject: rotatedCleanSubjects[index],
+      placement: effectivePlacements[index] || DEFAULT_PLACEMENT,
+      shadowGroundTint: shadowGroundTints[index],
+      subjectBounds: rotatedSubjectBounds[index]
+    })),
+    reflectionSettings: reflectionOptions,
+    setShot: isSetShot ? { order: zOrder, subjects: subjectEffects } : null
+  })[isSetShot ? 0 : activeIndex] : null;
 
   const handleBackdropUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       setBackdropFile(file);
+      setFloorY(null); // Uploaded backdrops have no stored floor line or scale calibration
+      setPixelsPerCm(null);
       
       try {
         // Get image dimensions
@@ -165,14 +538,8 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
         if (needsOptimization) {
           setShowOptimization(true);
         } else {
-          // File is fine, load it directly
-          const reader = new FileReader();
-          reader.onload = (e) => {
-            if (e.target?.result) {
-              setBackdrop(e.target.result as string);
-            }
-          };
-          reader.readAsDataURL(file);
+          // File is fine, use it directly
+          replaceBackdrop(assetStore.put(file));
         }
       } catch (error) {
         console.error('Error analyzing backdrop:', error);
@@ -189,6 +556,46 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
     setPlacement(prev => ({ ...prev, scale: value[0] }));
   };
 
+  // Free rotation, flip, skew and keystone are placement parameters, applied whenever the subject is drawn
+  const updateTransform = (update: Partial<SubjectPlacement>) => {
+    setPlacement(prev => ({ ...prev, ...update }));
+  };
+
+  const resetTransform = () => {
+    updateTransform({ rotation: 0, flipX: false, skewX: 0, keystone: 0 });
+  };
+
+  const straightenActiveSubject = async () => {
+    setIsStraightening(true);
+    try {
+      // The clean cutout, so the drop shadow's edges don't vote on the angle
+      const rotation = await detectStraightenAngle(activeCleanSubject || activeSubject);
+      updateTransform({ rotation: Math.round(rotation * 10) / 10 });
+      toast({
+        title: rotation === 0 ? "Already level" : "Subject straightened",
+        description: rotation === 0
+          ? "No dominant tilted edge was found"
+          : `Rotated ${Math.abs(rotation).toFixed(1)}° ${rotation > 0 ? 'clockwise' : 'counterclockwise'}`,
+      });
+    } catch (error) {
+      console.error('Error detecting straighten angle:', error);
+      toast({
+        title: "Straighten failed",
+        description: "Could not analyse the subject. Try rotating it by hand.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsStraightening(false);
+    }
+  };
+
+  // Earlier turns are dropped as soon as they are rotated again; the images passed in belong to the workflow
+  const releaseRotated = (previous: AssetId[]) => {
+    previous.forEach(id => {
+      if (!cutoutImages.includes(id) && !cleanSubjects.includes(id)) assetStore.release(id);
+    });
+  };
+
   const rotateSubject = async (direction: 'clockwise' | 'counterclockwise') => {
     setIsRotating(true);
     try {
@@ -200,6 +607,7 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
       });
 
       const allRotatedSubjects = await Promise.all(rotatedDataPromises);
+      releaseRotated(rotatedSubjects);
       setRotatedSubjects(allRotatedSubjects);
       
       // Also rotate ALL clean subjects for CSS reflection
@@ -211,8 +619,10 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
         });
 
         const allRotatedClean = await Promise.all(rotatedCleanPromises);
+        releaseRotated(rotatedCleanSubjects);
         setRotatedCleanSubjects(allRotatedClean);
       }
+      setRotatedSubjectBounds(prev => prev.map(bounds => bounds && rotateSubjectBounds(bounds, direction)));
       
       toast({
         title: "All subjects rotated",
@@ -232,20 +642,31 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
 
   const handleContinue = () => {
     if (backdrop) {
-      console.log('🎯 SECURE POSITIONING: Final placement values:', {
-        x: placement.x,
-        y: placement.y,
-        scale: placement.scale,
-        scalePercentage: Math.round(placement.scale * 100) + '%'
-      });
+      console.log('🎯 SECURE POSITIONING: Final placement values:', effectivePlacements.map(p => ({
+        x: p.x,
+        y: p.y,
+        scale: p.scale,
+        scalePercentage: Math.round(p.scale * 100) + '%'
+      })));
+      const backdropBlob = assetStore.get(backdrop);
       console.log('🔍 PURE BACKDROP verification:', {
-        backdropLength: backdrop.length,
-        backdropFormat: backdrop.substring(0, 50),
-        isDataUrl: backdrop.startsWith('data:image/'),
-        backdropType: backdrop.split(';')[0]
+        backdropId: backdrop,
+        backdropBytes: backdropBlob.size,
+        backdropType: backdropBlob.type
       });
       console.log('✅ VERIFIED: Passing backdrop and subjects');
-      onPositioningComplete(backdrop, placement, addBlur, rotatedSubjects);
+      onPositioningComplete(
+        backdrop,
+        effectivePlacements,
+        addBlur,
+        rotatedSubjects,
+        floorY,
+        reflectionOptions,
+        rotatedSubjectBounds,
+        rotatedCleanSubjects,
+        isSetShot ? { order: zOrder, subjects: subjectEffects } : null,
+        addBlur ? depthOfField : null
+      );
     }
   };
 
@@ -348,7 +769,7 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
             <h1 className="text-3xl font-bold">Backdrop & Positioning</h1>
           </div>
           <p className="text-muted-foreground max-w-2xl mx-auto">
-            Upload a backdrop and position your product. This placement will be applied to all your images.
+            Upload a backdrop and position your products. Each image keeps its own placement.
           </p>
         </div>
 
@@ -358,7 +779,7 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
             <CardHeader>
               <CardTitle>Step 5: Backdrop Setup</CardTitle>
               <CardDescription>
-                Configure backdrop and position your first product
+                Configure backdrop and position each product
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -403,21 +824,19 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
                           selectionMode={true}
                           onSelect={async (backdrop, imageUrl) => {
                             try {
-                              // Convert signed URL to data URL for proper processing
+                              // Download the signed URL into the asset store so compositing never refetches it
                               const response = await fetch(imageUrl);
                               const blob = await response.blob();
-                              const reader = new FileReader();
-                              reader.onload = (e) => {
-                                if (e.target?.result) {
-                                  setBackdrop(e.target.result as string);
-                                  setBackdropFile(null); // Clear file reference for library images
-                                  toast({
-                                    title: "Backdrop Selected",
-                                    description: `Using "${backdrop.name}" from library`
-                                  });
-                                }
-                              };
-                              reader.readAsDataURL(blob);
+                              replaceBackdrop(assetStore.put(blob));
+                              setBackdropFile(null); // Clear file reference for library images
+                              setFloorY(backdrop.floor_y_px);
+                              setSnapToFloor(backdrop.floor_y_px !== null);
+                              setPixelsPerCm(backdrop.pixels_per_cm);
+                              setSizeByDimensions(backdrop.pixels_per_cm !== null);
+                              toast({
+                                title: "Backdrop Selected",
+                                description: `Using "${backdrop.name}" from library`
+                              });
                             } catch (error) {
                               console.error('Error loading backdrop from library:', error);
                               toast({
@@ -434,6 +853,148 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
                 </Tabs>
               </div>
 
+              {/* Floor Contact Placement */}
+              {backdrop && backdropSize && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="snap-to-floor">Snap products to floor line</Label>
+                    <Switch
+                      id="snap-to-floor"
+                      checked={snapToFloor}
+                      onCheckedChange={(checked) => {
+                        setSnapToFloor(checked);
+                        // Start from the lower third when the backdrop has no stored floor line
+                        if (checked && floorY === null) {
+                          setFloorY(Math.round(backdropSize.height * 0.8));
+                        }
+                      }}
+                    />
+                  </div>
+                  {snapToFloor && floorY !== null && (
+                    <div className="space-y-2">
+                      <Slider
+                        value={[(floorY / backdropSize.height) * 100]}
+                        onValueChange={(value) => setFloorY(Math.round((value[0] / 100) * backdropSize.height))}
+                        min={0}
+                        max={100}
+                        step={0.1}
+                        className="w-full"
+                      />
+                      <div className="text-xs text-muted-foreground text-center">
+                        Floor line at {floorY}px - each product's lowest point sits on this line
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Real Dimension Sizing */}
+              {backdrop && backdropSize && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="size-by-dimensions">Size products by real dimensions</Label>
+                    <Switch
+                      id="size-by-dimensions"
+                      checked={sizeByDimensions}
+                      onCheckedChange={setSizeByDimensions}
+                    />
+                  </div>
+                  {sizeByDimensions && (
+                    <div className="space-y-3">
+                      <ScaleCalibrationInput value={pixelsPerCm} onChange={setPixelsPerCm} />
+                      {activeSubject && (
+                        <div className="space-y-2">
+                          <Label>Image {activeIndex + 1} size</Label>
+                          <div className="grid grid-cols-2 gap-2">
+                            <Input
+                              type="number"
+                              min={0}
+                              value={activeSize.widthCm ?? ""}
+                              onChange={(e) => updateActiveSize('widthCm', e.target.value)}
+                              placeholder="Width (cm)"
+                            />
+                            <Input
+                              type="number"
+                              min={0}
+                              value={activeSize.heightCm ?? ""}
+                              onChange={(e) => updateActiveSize('heightCm', e.target.value)}
+                              placeholder="Height (cm)"
+                            />
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {isActiveScaleDerived
+                              ? "Scale is set from the product's real size"
+                              : "Enter a width or height to size this product, otherwise the size slider is used"}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Set Shot */}
+              {rotatedSubjects.length > 1 && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="set-shot">Place all products on one backdrop (set shot)</Label>
+                      <p className="text-xs text-muted-foreground">Creates a single image, e.g. a bag with its matching wallet</p>
+                    </div>
+                    <Switch id="set-shot" checked={isSetShot} onCheckedChange={setIsSetShot} />
+                  </div>
+                  {isSetShot && activeEffects && (
+                    <div className="bg-muted/50 rounded-lg p-3 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">Product {activeIndex + 1}</span>
+                        <Badge variant="outline">
+                          Layer {zOrder.indexOf(activeIndex) + 1} of {zOrder.length}
+                        </Badge>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => moveActiveInStack(-1)}
+                          disabled={zOrder.indexOf(activeIndex) === 0}
+                          className="flex-1"
+                        >
+                          <SendToBack className="h-4 w-4 mr-1" />
+                          Send Backward
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => moveActiveInStack(1)}
+                          disabled={zOrder.indexOf(activeIndex) === zOrder.length - 1}
+                          className="flex-1"
+                        >
+                          <BringToFront className="h-4 w-4 mr-1" />
+                          Bring Forward
+                        </Button>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="set-shot-shadow">Shadow</Label>
+                        <Switch
+                          id="set-shot-shadow"
+                          checked={activeEffects.shadow}
+                          onCheckedChange={(checked) => updateActiveEffect('shadow', checked)}
+                          disabled={!rotatedCleanSubjects[activeIndex]}
+                        />
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="set-shot-reflection">Reflection</Label>
+                        <Switch
+                          id="set-shot-reflection"
+                          checked={activeEffects.reflection}
+                          onCheckedChange={(checked) => updateActiveEffect('reflection', checked)}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Background Blur Option */}
               <div className="flex items-center space-x-2">
                 <Checkbox
@@ -443,9 +1004,32 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
                 />
                 <Label htmlFor="add-blur">Add background blur (depth of field)</Label>
               </div>
+              {addBlur && (
+                <div className="space-y-2">
+                  <Label>Blur strength: {Math.round(depthOfField.strength * 100)}%</Label>
+                  <Slider
+                    value={[depthOfField.strength * 100]}
+                    onValueChange={(value) => setDepthOfField({ strength: value[0] / 100 })}
+                    min={5}
+                    max={100}
+                    step={5}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The backdrop stays sharp at the floor line and softens toward the top.
+                  </p>
+                </div>
+              )}
+
+              {/* Reflection Settings */}
+              {rotatedCleanSubjects.length > 0 && (
+                <div className="space-y-3">
+                  <Label>Reflection</Label>
+                  <ReflectionControls value={reflectionOptions} onChange={setReflectionOptions} />
+                </div>
+              )}
 
               {/* Subject Rotation Controls */}
-              {firstSubject && (
+              {activeSubject && (
                 <div className="space-y-3">
                   <Label>Subject Orientation</Label>
                   <div className="flex gap-2">
@@ -476,8 +1060,82 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
                 </div>
               )}
 
+              {/* Straighten, Flip and Perspective (per image, never re-encoded) */}
+              {backdrop && activeSubject && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label>Image {activeIndex + 1} Transform</Label>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={resetTransform}
+                      disabled={!hasSubjectTransform(placement)}
+                    >
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Reset
+                    </Button>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={straightenActiveSubject}
+                      disabled={isStraightening}
+                      className="flex-1"
+                    >
+                      {isStraightening
+                        ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        : <Ruler className="h-4 w-4 mr-1" />}
+                      Straighten
+                    </Button>
+                    <Button
+                      variant={placement.flipX ? "secondary" : "outline"}
+                      size="sm"
+                      onClick={() => updateTransform({ flipX: !placement.flipX })}
+                      className="flex-1"
+                    >
+                      <FlipHorizontal className="h-4 w-4 mr-1" />
+                      Flip Horizontal
+                    </Button>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Rotation: {(placement.rotation || 0).toFixed(1)}°</Label>
+                    <Slider
+                      value={[placement.rotation || 0]}
+                      onValueChange={(value) => updateTransform({ rotation: value[0] })}
+                      min={-45}
+                      max={45}
+                      step={0.1}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Skew: {(placement.skewX || 0).toFixed(1)}°</Label>
+                    <Slider
+                      value={[placement.skewX || 0]}
+                      onValueChange={(value) => updateTransform({ skewX: value[0] })}
+                      min={-20}
+                      max={20}
+                      step={0.5}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Keystone: {Math.round((placement.keystone || 0) * 100)}%</Label>
+                    <Slider
+                      value={[placement.keystone || 0]}
+                      onValueChange={(value) => updateTransform({ keystone: value[0] })}
+                      min={-0.3}
+                      max={0.3}
+                      step={0.01}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Corrects perspective: positive narrows the top edge, negative the bottom
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {/* Positioning Controls */}
-              {backdrop && firstSubject && (
+              {backdrop && activeSubject && (
                 <div className="space-y-4">
                   <div className="space-y-2">
                     <Label>Product Size</Label>
@@ -487,17 +1145,91 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
                       max={1.0}
                       min={0.1}
                       step={0.05}
+                      disabled={isActiveScaleDerived}
                       className="w-full"
                     />
                     <div className="text-xs text-muted-foreground text-center">
-                      {Math.round(placement.scale * 100)}% of backdrop width
+                      {Math.round(placement.scale * 100)}% of backdrop width{isActiveScaleDerived && " (from real dimensions)"}
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="placement-x" className="text-xs">X (%)</Label>
+                      <Input
+                        id="placement-x"
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={0.1}
+                        value={Math.round(placement.x * 1000) / 10}
+                        onChange={(e) => updatePlacementValue('x', e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="placement-y" className="text-xs">Y (%)</Label>
+                      <Input
+                        id="placement-y"
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={0.1}
+                        value={Math.round(placement.y * 1000) / 10}
+                        onChange={(e) => updatePlacementValue('y', e.target.value)}
+                        disabled={isFloorSnapped}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="placement-scale" className="text-xs">Scale (%)</Label>
+                      <Input
+                        id="placement-scale"
+                        type="number"
+                        min={MIN_SCALE * 100}
+                        max={MAX_SCALE * 100}
+                        step={0.1}
+                        value={Math.round(placement.scale * 1000) / 10}
+                        onChange={(e) => updatePlacementValue('scale', e.target.value)}
+                        disabled={isActiveScaleDerived}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="snap-to-guides">Snap to centre, thirds and floor line</Label>
+                    <Switch id="snap-to-guides" checked={snapToGuides} onCheckedChange={setSnapToGuides} />
+                  </div>
+
+                  {rotatedSubjects.length > 1 && !isSetShot && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={copyPlacementFromPrevious}
+                        disabled={activeIndex === 0}
+                        className="flex-1"
+                      >
+                        <Copy className="h-4 w-4 mr-1" />
+                        Copy from Previous
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={applyPlacementToAll}
+                        className="flex-1"
+                      >
+                        <CopyCheck className="h-4 w-4 mr-1" />
+                        Apply to All
+                      </Button>
+                    </div>
+                  )}
+
                   <div className="bg-muted/50 p-3 rounded-lg">
                     <p className="text-sm font-medium mb-1">Positioning Instructions:</p>
                     <p className="text-xs text-muted-foreground">
-                      Click and drag on the preview to position your product. Use the size slider to adjust scale.
+                      {isSetShot
+                        ? "Click a product on the preview to select it, then drag to position it. Use the size slider to adjust its scale and the layer buttons to put it in front of or behind the others."
+                        : "Click and drag on the preview to position your product. Use the size slider to adjust scale. Select another image in the filmstrip to give it its own placement."}
+                      {" "}On a touch screen, pinch to resize and twist with two fingers to rotate. Arrow keys nudge the product (hold Shift for bigger steps); hold Alt while dragging to ignore the guides.
                     </p>
                   </div>
                 </div>
@@ -508,6 +1240,8 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
                 <h4 className="font-medium mb-2">Processing Info:</h4>
                 <div className="text-sm text-muted-foreground space-y-1">
                   <div>• Products to process: {cutoutImages.length}</div>
+                  <div>• Output: {isSetShot ? "1 set shot" : `${cutoutImages.length} images`}</div>
+                  <div>• Custom placements: {placements.filter((_, index) => isCustomPlacement(index)).length}</div>
                   <div>• Backdrop: {backdrop ? "✓ Ready" : "⚠ Required"}</div>
                   <div>• Position: {backdrop ? "✓ Interactive" : "⚠ Upload backdrop first"}</div>
                   {backdropAnalysis?.finalSize && (
@@ -523,94 +1257,83 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
             <CardHeader>
               <CardTitle>Preview</CardTitle>
               <CardDescription>
-                Drag to position, adjust size with slider
+                {isSetShot
+                  ? `Set shot with ${rotatedSubjects.length} products - click a product to select it, drag to position`
+                  : `Image ${activeIndex + 1} of ${rotatedSubjects.length} - drag to position, adjust size with slider`}
               </CardDescription>
             </CardHeader>
             <CardContent>
-              {backdrop && firstSubject ? (
+              {backdrop && activeSubject ? (
                 <div className="space-y-4">
-                  {/* CSS-based interactive preview with real-time reflection */}
+                  {/* Interactive preview, sized to the backdrop so placements map 1:1 onto the output */}
                   <div 
-                    className="relative overflow-hidden rounded-lg border-2 border-primary/50"
+                    className="relative overflow-hidden rounded-lg border-2 border-primary/50 mx-auto touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    tabIndex={0}
+                    aria-label="Positioning preview. Drag to move the selected product, or use the arrow keys to nudge it."
                     style={{
-                      width: '100%',
-                      height: '500px',
-                      backgroundImage: `url(${backdrop})`,
-                      backgroundSize: 'cover',
-                      backgroundPosition: 'center'
+                      ...(backdropSize
+                        ? {
+                            width: `min(100%, ${(500 * backdropSize.width) / backdropSize.height}px)`,
+                            aspectRatio: `${backdropSize.width} / ${backdropSize.height}`
+                          }
+                        : { width: '100%', height: '500px' }),
+                      backgroundImage: `url(${resolveAssetUrl(backdrop)})`,
+                      backgroundSize: '100% 100%'
                     }}
-                    onMouseDown={(e) => {
-                      const rect = e.currentTarget.getBoundingClientRect();
-                      setIsDragging(true);
-                      setDragStart({ x: e.clientX, y: e.clientY });
-                    }}
-                    onMouseMove={(e) => {
-                      if (!isDragging) return;
-                      const rect = e.currentTarget.getBoundingClientRect();
-                      const deltaX = e.clientX - dragStart.x;
-                      const deltaY = e.clientY - dragStart.y;
-                      
-                      setPlacement(prev => ({
-                        ...prev,
-                        x: Math.max(0, Math.min(1, prev.x + (deltaX / rect.width))),
-                        y: Math.max(0, Math.min(1, prev.y + (deltaY / rect.height)))
-                      }));
-                      
-                      setDragStart({ x: e.clientX, y: e.clientY });
-                    }}
-                    onMouseUp={() => setIsDragging(false)}
-                    onMouseLeave={() => setIsDragging(false)}
+                    onPointerDown={handlePreviewPointerDown}
+                    onPointerMove={handlePreviewPointerMove}
+                    onPointerUp={handlePreviewPointerUp}
+                    onPointerCancel={handlePreviewPointerUp}
+                    onKeyDown={handlePreviewKeyDown}
                   >
-                    {/* Main Subject with Shadow (draggable) */}
-                    <div
-                      className="absolute cursor-move select-none"
-                      style={{
-                        left: `${placement.x * 100}%`,
-                        top: `${placement.y * 100}%`,
-                        transform: 'translate(-50%, -50%)',
-                        width: `${placement.scale * 100}%`,
-                        maxWidth: '100%',
-                        zIndex: 2,
-                        position: 'relative'
-                      }}
-                    >
-                      {/* Subject */}
-                      <img
-                        ref={subjectRef}
-                        src={firstSubject}
-                        alt="Product with shadow"
-                        className="w-full h-auto select-none"
-                        draggable={false}
-                      />
-                      
-                      {/* CSS Reflection (positioned relative to subject) */}
-                      {firstCleanSubject && (
-                        <img
-                          ref={reflectionRef}
-                          src={firstCleanSubject}
-                          alt=""
-                          aria-hidden="true"
-                          className="css-reflection-base"
-                          draggable={false}
+                    {/* The composition itself, drawn by the final renderer at preview resolution */}
+                    {previewDoc && <CompositionPreview doc={previewDoc} outputWidth={backdropSize.width} />}
+
+                    {isSetShot ? (
+                      // Every product of the set, stacked back to front; pressing one selects it for dragging
+                      zOrder.map((index, position) => (
+                        <div
+                          key={index}
+                          role="button"
+                          aria-label={`Select product ${index + 1}`}
+                          className={`absolute cursor-move ${index === activeIndex ? "outline outline-2 outline-dashed outline-primary/70" : ""}`}
+                          style={{ ...getSubjectBoxStyle(index), zIndex: 2 + position }}
+                          onPointerDown={() => {
+                            pressedIndexRef.current = index;
+                            setActiveIndex(index);
+                          }}
                         />
-                      )}
-                    </div>
-                    
-                    {/* Drag hint (for accessibility) */}
-                    <div
-                      className="absolute"
-                      style={{
-                        left: `${placement.x * 100}%`,
-                        top: `${placement.y * 100}%`,
-                        transform: 'translate(-50%, -50%)',
-                        width: `${placement.scale * 100}%`,
-                        maxWidth: '100%',
-                        height: 'auto',
-                        zIndex: 2
-                      }}
-                      draggable={false}
-                    />
-                    
+                      ))
+                    ) : (
+                      // Drag handle over the product
+                      <div
+                        className="absolute cursor-move"
+                        style={{ ...getSubjectBoxStyle(), zIndex: 2 }}
+                      />
+                    )}
+
+                    {/* Floor line */}
+                    {(isFloorSnapped || activeGuides.floor) && floorY !== null && backdropSize && (
+                      <div
+                        className="absolute left-0 right-0 border-t-2 border-dashed border-primary/70 pointer-events-none"
+                        style={{ top: `${(floorY / backdropSize.height) * 100}%`, zIndex: 1 }}
+                      />
+                    )}
+
+                    {/* Snapping guides, shown while a dragged product is held on them */}
+                    {activeGuides.x !== null && (
+                      <div
+                        className="absolute top-0 bottom-0 border-l border-dashed border-primary pointer-events-none"
+                        style={{ left: `${activeGuides.x * 100}%`, zIndex: 100 }}
+                      />
+                    )}
+                    {activeGuides.y !== null && (
+                      <div
+                        className="absolute left-0 right-0 border-t border-dashed border-primary pointer-events-none"
+                        style={{ top: `${activeGuides.y * 100}%`, zIndex: 100 }}
+                      />
+                    )}
+
                     {/* Positioning guide */}
                     <div className="absolute bottom-2 right-2 bg-black/50 text-white px-2 py-1 rounded text-xs">
                       X: {Math.round(placement.x * 100)}% Y: {Math.round(placement.y * 100)}% Scale: {Math.round(placement.scale * 100)}%
@@ -618,11 +1341,37 @@ export const BackdropPositioning: React.FC<BackdropPositioningProps> = ({
                   </div>
                   
                   <p className="text-sm text-muted-foreground text-center">
-                    Drag the product to position it. The reflection updates in real-time using CSS.
+                    Drag the product to position it. The preview is drawn by the same renderer as the final image.
                   </p>
-                  
-                  {/* Hidden canvas for backward compatibility */}
-                  <canvas ref={canvasRef} className="hidden" />
+
+                  {/* Filmstrip - select which image is being positioned */}
+                  {rotatedSubjects.length > 1 && (
+                    <div className="flex gap-2 overflow-x-auto pb-2">
+                      {rotatedSubjects.map((subject, index) => (
+                        <button
+                          key={index}
+                          type="button"
+                          onClick={() => setActiveIndex(index)}
+                          className={`relative flex-shrink-0 w-20 h-20 rounded border-2 bg-checkered transition-colors ${
+                            index === activeIndex ? "border-primary" : "border-muted hover:border-primary/50"
+                          }`}
+                        >
+                          <img
+                            src={resolveAssetUrl(subject)}
+                            alt={`Product ${index + 1}`}
+                            className="w-full h-full object-contain"
+                            draggable={false}
+                          />
+                          <span className="absolute bottom-0 left-0 bg-black/50 text-white text-[10px] px-1 rounded-tr">
+                            {index + 1}
+                          </span>
+                          {isCustomPlacement(index) && (
+                            <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-primary" />
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="flex items-center justify-center h-64 bg-muted/20 rounded-lg border-2 border-dashed">
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useDropzone } from "react-dropzone";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -8,6 +8,8 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/components/ui/use-toast";
 import { Upload, X, Check } from "lucide-react";
+import { FloorLineEditor } from "@/components/FloorLineEditor";
+import { ScaleCalibrationInput } from "@/components/ScaleCalibrationInput";
 
 interface BackdropUploadProps {
   onUploadComplete: () => void;
@@ -18,8 +20,21 @@ export const BackdropUpload = ({ onUploadComplete }: BackdropUploadProps) => {
   const [uploadProgress, setUploadProgress] = useState(0);
   const [backdropName, setBackdropName] = useState("");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string>("");
+  const [floorY, setFloorY] = useState<number | null>(null);
+  const [pixelsPerCm, setPixelsPerCm] = useState<number | null>(null);
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (!selectedFile) {
+      setPreviewUrl("");
+      return;
+    }
+    const url = URL.createObjectURL(selectedFile);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selectedFile]);
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     accept: {
       'image/*': ['.jpeg', '.jpg', '.png', '.webp']
@@ -30,6 +45,8 @@ export const BackdropUpload = ({ onUploadComplete }: BackdropUploadProps) => {
       if (acceptedFiles.length > 0) {
         const file = acceptedFiles[0];
         setSelectedFile(file);
+        setFloorY(null);
+        setPixelsPerCm(null);
         setBackdropName(file.name.replace(/\.[^/.]+$/, ""));
       }
     }
@@ -91,7 +108,9 @@ export const BackdropUpload = ({ onUploadComplete }: BackdropUploadProps) => {
           name: backdropName.trim(),
           storage_path: filePath,
           file_size: selectedFile.size,
-          dimensions: dimensions
+          dimensions: dimensions,
+          floor_y_px: floorY,
+          pixels_per_cm: pixelsPerCm
         });
 
       if (dbError) throw dbError;
@@ -106,6 +125,8 @@ export const BackdropUpload = ({ onUploadComplete }: BackdropUploadProps) => {
       // Reset form
       setSelectedFile(null);
       setBackdropName("");
+      setFloorY(null);
+      setPixelsPerCm(null);
       onUploadComplete();
 
     } catch (error: any) {
@@ -124,6 +145,8 @@ export const BackdropUpload = ({ onUploadComplete }: BackdropUploadProps) => {
   const clearSelection = () => {
     setSelectedFile(null);
     setBackdropName("");
+    setFloorY(null);
+    setPixelsPerCm(null);
   };
 
   return (
@@ -183,6 +206,21 @@ export const BackdropUpload = ({ onUploadComplete }: BackdropUploadProps) => {
                 />
               </div>
 
+              {previewUrl && (
+                <FloorLineEditor
+                  imageUrl={previewUrl}
+                  value={floorY}
+                  onChange={setFloorY}
+                  disabled={uploading}
+                />
+              )}
+
+              <ScaleCalibrationInput
+                value={pixelsPerCm}
+                onChange={setPixelsPerCm}
+                disabled={uploading}
+              />
+
               {uploading && (
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
@@ -3,18 +3,49 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { AlertCircle, ArrowLeft, ArrowRight, Loader2, Scissors, Download } from "lucide-react";
+import { AlertCircle, ArrowLeft, ArrowRight, Scissors, Download, Brush, RotateCcw, X } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { supabase } from "@/integrations/supabase/client";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { useJobRunner } from "@/hooks/use-job-runner";
+import { AssetId, assetStore } from "@/lib/asset-store";
+import { MaskEditor } from "@/components/MaskEditor";
+import { ChromaKeySettings } from "@/components/ChromaKeySettings";
+import { JobStatusBadge } from "@/components/JobStatusBadge";
+import type { ProductConfig } from "@/components/ProductConfiguration";
+import {
+  BACKGROUND_REMOVAL_ENGINE_LABELS,
+  BackgroundRemovalEngine,
+  CutoutResult,
+  removeBackground
+} from "@/lib/background-removal";
+import { ChromaKeyOptions, DEFAULT_CHROMA_KEY } from "@/lib/chroma-key";
+import { retryWithBackoff } from "@/lib/job-runner";
+import { isAbortError } from "@/lib/worker-pool";
+
+const REMOVAL_CONCURRENCY = 3; // images removed side by side
+
+interface SourceImage {
+  name: string;
+  assetId: AssetId;
+  originalSize: number;
+}
+
+interface FailedImage extends SourceImage {
+  error: string;
+}
 
 interface BackgroundRemovalStepProps {
-  files: File[];
-  onProcessingComplete: (processedSubjects: any[]) => void;
+  images: Array<{ name: string; assetId: AssetId; size: number }>; // Uploads, already in the asset store
+  productConfig?: ProductConfig | null; // Product type and features guide the Gemini mask engine
+  // Cutouts made earlier, e.g. when coming back from rotation, so they can still be reviewed and refined
+  initialResults?: Array<{ name: string; originalId?: AssetId; backgroundRemovedId?: AssetId; size: number }>;
+  onProcessingComplete: (processedSubjects: any[]) => void; // Every change to the cutouts; the step stays open for review
+
   onContinue: (backgroundRemovedImages: Array<{
     name: string;
-    originalData: string;
-    backgroundRemovedData: string;
+    originalId: AssetId;
+    backgroundRemovedId: AssetId;
     size: number;
     originalSize?: number;
   }>) => void;
@@ -24,24 +55,40 @@ interface BackgroundRemovalStepProps {
 
 interface ProcessedImage {
   name: string;
-  originalData: string;
-  backgroundRemovedData: string;
+  originalId: AssetId;
+  backgroundRemovedId: AssetId;
   size: number;
   originalSize?: number;
+  engine?: BackgroundRemovalEngine; // Engine whose cutout is in use
+  provider?: string; // remove-backgrounds provider behind the cutout, when it came from that function
+  candidates?: Partial<Record<BackgroundRemovalEngine, CutoutResult>>; // Every cutout made, when comparing engines
 }
 
 export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
-  files,
+  images,
+  productConfig,
+  initialResults,
   onProcessingComplete,
   onContinue,
   onBack,
   isProcessing = false
 }) => {
-  const [processedImages, setProcessedImages] = useState<ProcessedImage[]>([]);
-  const [failedImages, setFailedImages] = useState<{name: string, error: string, data: string, originalSize: number}[]>([]);
+  const [processedImages, setProcessedImages] = useState<ProcessedImage[]>(() => (initialResults || [])
+    .filter((result): result is ProcessedImage => !!result.originalId && !!result.backgroundRemovedId));
+  // Coming back with earlier cutouts, any image without one is still outstanding and can be retried
+  const [failedImages, setFailedImages] = useState<FailedImage[]>(() => {
+    if (!initialResults?.length) return [];
+    const done = new Set(initialResults.map(result => result.name));
+    return images
+      .filter(image => !done.has(image.name))
+      .map(image => ({ name: image.name, assetId: image.assetId, originalSize: image.size, error: 'Not processed' }));
+  });
   const [isProcessingLocal, setIsProcessingLocal] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [currentProcessingStep, setCurrentProcessingStep] = useState('');
+  const { jobs, isRunning: isRemoving, run: runRemovalJobs, cancel: cancelRemoval } = useJobRunner();
+  const [editingImage, setEditingImage] = useState<ProcessedImage | null>(null);
+  const [engine, setEngine] = useState<BackgroundRemovalEngine | 'compare'>('replicate');
+  const [chromaKeyOptions, setChromaKeyOptions] = useState<ChromaKeyOptions>(DEFAULT_CHROMA_KEY);
+  const canUseGemini = !!productConfig?.productType;
   const { toast } = useToast();
 
   const formatFileSize = (bytes: number) => {
@@ -52,114 +99,89 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const processImageWithRetry = async (image: {data: string, name: string, originalSize: number}, maxRetries = 3): Promise<ProcessedImage | null> => {
-    let lastError: any = null;
-    
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(`Processing ${image.name} - Attempt ${attempt}/${maxRetries}`);
-        
-        const { data: result, error } = await supabase.functions.invoke('remove-backgrounds', {
-          body: { images: [{ data: image.data, name: image.name }] }
-        });
+  const removeWithEngine = (image: SourceImage, removalEngine: BackgroundRemovalEngine, signal?: AbortSignal): Promise<CutoutResult> => {
+    console.log(`Processing ${image.name} with ${removalEngine}`);
+    return retryWithBackoff(() => removeBackground(removalEngine, image.assetId, image.name, {
+      hints: productConfig,
+      chromaKey: chromaKeyOptions
+    }), { signal });
+  };
 
-        if (error) {
-          lastError = error;
-          if (attempt < maxRetries) {
-            // Wait with exponential backoff before retry
-            const delay = Math.pow(2, attempt - 1) * 1000; // 1s, 2s, 4s
-            console.log(`Retrying ${image.name} in ${delay}ms...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue;
-          }
-        } else if (result?.results && result.results.length > 0) {
-          return {
-            ...result.results[0],
-            originalSize: image.originalSize
-          };
-        }
+  // In compare mode both engines run and the Replicate cutout is picked until the user chooses;
+  // the image only fails when every engine does
+  const processImage = async (image: SourceImage, signal?: AbortSignal): Promise<ProcessedImage> => {
+    const engines: BackgroundRemovalEngine[] = engine === 'compare' ? ['replicate', 'gemini-mask'] : [engine];
+    const candidates: Partial<Record<BackgroundRemovalEngine, CutoutResult>> = {};
+    let lastError: unknown;
+
+    for (const removalEngine of engines) {
+      try {
+        candidates[removalEngine] = await removeWithEngine(image, removalEngine, signal);
       } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn(`${removalEngine} failed for ${image.name}:`, error);
         lastError = error;
-        if (attempt < maxRetries) {
-          const delay = Math.pow(2, attempt - 1) * 1000;
-          console.log(`Retrying ${image.name} in ${delay}ms...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
       }
     }
-    
-    return null;
+
+    const picked = engines.find(removalEngine => candidates[removalEngine]);
+    if (!picked) throw lastError;
+
+    return {
+      name: image.name,
+      originalId: image.assetId,
+      ...candidates[picked],
+      originalSize: image.originalSize,
+      engine: picked,
+      candidates
+    };
+  };
+
+  // Engines retry on their own, so the runner makes a single attempt per image
+  const removeBackgrounds = async (images: SourceImage[]) => {
+    const outcomes = await runRemovalJobs(images, image => image.name, processImage, {
+      concurrency: REMOVAL_CONCURRENCY,
+      maxRetries: 1
+    });
+
+    return {
+      succeeded: outcomes.flatMap(outcome => outcome.status === 'done' ? [outcome.result] : []),
+      failed: images.flatMap((image, index) => {
+        const outcome = outcomes[index];
+        return outcome.status === 'failed' ? [{ ...image, error: outcome.error }] : [];
+      })
+    };
   };
 
   const handleRemoveBackgrounds = async () => {
     setIsProcessingLocal(true);
-    setProgress(0);
     setFailedImages([]);
-    setCurrentProcessingStep('Converting images...');
 
     try {
-      // Convert files to base64 and store original sizes
-      const imageData = await Promise.all(
-        files.map(async (file) => {
-          const reader = new FileReader();
-          return new Promise<{ data: string; name: string; originalSize: number }>((resolve) => {
-            reader.onload = () => resolve({
-              data: reader.result as string,
-              name: file.name,
-              originalSize: file.size
-            });
-            reader.readAsDataURL(file);
-          });
-        })
-      );
-
-      setProgress(20);
-      setCurrentProcessingStep('Removing backgrounds...');
-
-      // Process images one by one to avoid CPU timeouts
-      const allResults: ProcessedImage[] = [];
-      const failed: {name: string, error: string, data: string, originalSize: number}[] = [];
-      
-      for (let i = 0; i < imageData.length; i++) {
-        const image = imageData[i];
-        const imageProgress = ((i / imageData.length) * 80) + 20; // 20-100% range
-        
-        setCurrentProcessingStep(`Processing image ${i + 1} of ${imageData.length}: ${image.name}...`);
-        setProgress(imageProgress);
-
-        const result = await processImageWithRetry(image);
-        
-        if (result) {
-          allResults.push(result);
-        } else {
-          failed.push({
-            name: image.name,
-            error: 'Failed after 3 attempts',
-            data: image.data,
-            originalSize: image.originalSize
-          });
-          toast({
-            title: "Processing Failed",
-            description: `${image.name} failed after 3 attempts. You can retry individual images.`,
-            variant: "destructive",
-          });
-        }
-      }
+      const { succeeded, failed } = await removeBackgrounds(images.map(image => ({
+        assetId: image.assetId,
+        name: image.name,
+        originalSize: image.size
+      })));
 
-      setProgress(100);
-      setCurrentProcessingStep('Complete!');
-      
-      setProcessedImages(allResults);
+      setProcessedImages(succeeded);
       setFailedImages(failed);
-      
-      // Call the new onProcessingComplete prop with the processed subjects
-      onProcessingComplete(allResults);
-      
+
+      // The parent keeps the cutouts; moving on is left to Continue, after review
+      onProcessingComplete(succeeded);
+
+      if (failed.length > 0) {
+        toast({
+          title: "Processing Failed",
+          description: `${failed.length} of ${images.length} images failed. You can retry them below.`,
+          variant: "destructive",
+        });
+      }
     } catch (error) {
       console.error('Error removing backgrounds:', error);
       toast({
         title: "Processing Error",
-        description: `Error: ${error.message}`,
+        description: `Error: ${error instanceof Error ? error.message : String(error)}`,
         variant: "destructive",
       });
     } finally {
@@ -167,40 +189,69 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
     }
   };
 
-  const retryFailedImage = async (failedImage: {name: string, error: string, data: string, originalSize: number}) => {
-    setCurrentProcessingStep(`Retrying ${failedImage.name}...`);
-    
-    const result = await processImageWithRetry({
-      data: failedImage.data,
-      name: failedImage.name,
-      originalSize: failedImage.originalSize
-    });
-    
-    if (result) {
-      // Move from failed to processed
-      setProcessedImages(prev => [...prev, result]);
-      setFailedImages(prev => prev.filter(f => f.name !== failedImage.name));
-      
-      // Update the parent component
-      const updatedProcessed = [...processedImages, result];
-      onProcessingComplete(updatedProcessed);
-      
+  const retryImages = async (retrying: FailedImage[]) => {
+    const { succeeded, failed } = await removeBackgrounds(retrying);
+    const retriedNames = new Set(retrying.map(image => image.name));
+
+    // Move successes from failed to processed
+    const updatedProcessed = [...processedImages, ...succeeded];
+    setProcessedImages(updatedProcessed);
+    setFailedImages(prev => [...prev.filter(image => !retriedNames.has(image.name)), ...failed]);
+
+    // Update the parent component
+    onProcessingComplete(updatedProcessed);
+
+    if (failed.length === 0) {
       toast({
         title: "Success!",
-        description: `${failedImage.name} processed successfully`,
+        description: retrying.length === 1
+          ? `${retrying[0].name} processed successfully`
+          : `${retrying.length} images processed successfully`,
       });
     } else {
       toast({
         title: "Retry Failed",
-        description: `${failedImage.name} still failed after retry`,
+        description: `${failed.length} of ${retrying.length} ${retrying.length === 1 ? 'image' : 'images'} still failed`,
         variant: "destructive",
       });
     }
   };
 
+  const pickCandidate = (name: string, candidateEngine: BackgroundRemovalEngine) => {
+    const updatedProcessed = processedImages.map(img => img.name === name && img.candidates?.[candidateEngine]
+      ? { ...img, provider: undefined, ...img.candidates[candidateEngine], engine: candidateEngine }
+      : img);
+    setProcessedImages(updatedProcessed);
+    onProcessingComplete(updatedProcessed);
+  };
+
+  // Swap in the hand-refined cutout, keeping the original so it can be refined again
+  const handleMaskSaved = (backgroundRemovedId: AssetId) => {
+    const updatedProcessed = processedImages.map(img => img.name === editingImage?.name
+      ? { ...img, backgroundRemovedId, size: assetStore.get(backgroundRemovedId).size }
+      : img);
+    setProcessedImages(updatedProcessed);
+    onProcessingComplete(updatedProcessed);
+    setEditingImage(null);
+  };
+
+  // Back to engine selection, e.g. after changing the product configuration; the parent drops the old cutouts
+  const startOver = () => {
+    setProcessedImages([]);
+    setFailedImages([]);
+    onProcessingComplete([]);
+  };
+
+  const isComparing = processedImages.some(img => Object.keys(img.candidates || {}).length > 1);
+
   const shouldCompress = (size: number) => size > 5 * 1024 * 1024; // 5MB threshold
   const largeImages = processedImages.filter(img => shouldCompress(img.size));
 
+  const jobList = Object.values(jobs);
+  const progress = jobList.length > 0
+    ? (jobList.filter(job => job.status === 'done' || job.status === 'failed').length / jobList.length) * 100
+    : 0;
+
   if (isProcessingLocal || isProcessing) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background to-secondary/20 flex items-center justify-center p-4">
@@ -212,16 +263,27 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
           </CardHeader>
           <CardContent className="space-y-4">
             <Progress value={progress} className="w-full" />
-            <p className="text-sm text-muted-foreground text-center">
-              {currentProcessingStep}
-            </p>
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {images.map(image => (
+                <div key={image.name} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{image.name}</span>
+                  {jobs[image.name] && <JobStatusBadge {...jobs[image.name]} />}
+                </div>
+              ))}
+            </div>
+            {isProcessingLocal && (
+              <Button variant="outline" onClick={cancelRemoval} className="w-full">
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
     );
   }
 
-  if (processedImages.length > 0) {
+  if (processedImages.length > 0 || failedImages.length > 0) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background to-secondary/20 p-4">
         <div className="max-w-6xl mx-auto space-y-6">
@@ -231,7 +293,9 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
               <h1 className="text-3xl font-bold">Background Removal Complete</h1>
             </div>
             <p className="text-muted-foreground max-w-2xl mx-auto">
-              Your images have been processed. Review the results below.
+              {isComparing
+                ? "Both engines have processed your images. Click the better cutout for each image, then continue."
+                : "Your images have been processed. Review the results below."}
             </p>
           </div>
 
@@ -260,9 +324,16 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
                 <CardHeader>
                   <div className="flex items-center justify-between">
                     <CardTitle className="text-sm truncate">{image.name}</CardTitle>
-                    <Badge variant={shouldCompress(image.size) ? "destructive" : "secondary"}>
-                      {formatFileSize(image.size)}
-                    </Badge>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {image.provider && image.provider !== image.engine && (
+                        <Badge variant="outline" title="Cut out by a different provider than the engine chosen">
+                          via {image.provider}
+                        </Badge>
+                      )}
+                      <Badge variant={shouldCompress(image.size) ? "destructive" : "secondary"}>
+                        {formatFileSize(image.size)}
+                      </Badge>
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -271,7 +342,7 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
                       <div>
                         <p className="text-xs text-muted-foreground mb-1">Original</p>
                         <img
-                          src={image.originalData}
+                          src={assetStore.getUrl(image.originalId)}
                           alt={`Original ${image.name}`}
                           className="w-full h-24 object-cover rounded border"
                         />
@@ -280,13 +351,44 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
                         <p className="text-xs text-muted-foreground mb-1">Background Removed</p>
                         <div className="w-full h-24 rounded border bg-checkered">
                           <img
-                            src={image.backgroundRemovedData}
+                            src={assetStore.getUrl(image.backgroundRemovedId)}
                             alt={`Processed ${image.name}`}
                             className="w-full h-full object-cover rounded"
                           />
                         </div>
                       </div>
                     </div>
+
+                    {/* Side-by-side engine comparison: click the better cutout */}
+                    {image.candidates && Object.keys(image.candidates).length > 1 && (
+                      <div className="grid grid-cols-2 gap-2">
+                        {(Object.keys(image.candidates) as BackgroundRemovalEngine[]).map(candidateEngine => {
+                          const isPicked = image.engine === candidateEngine;
+                          return (
+                            <button
+                              key={candidateEngine}
+                              type="button"
+                              onClick={() => pickCandidate(image.name, candidateEngine)}
+                              className={`rounded border-2 p-1 text-left transition-colors ${
+                                isPicked ? 'border-primary' : 'border-border hover:border-primary/50'
+                              }`}
+                            >
+                              <div className="h-32 rounded bg-checkered">
+                                <img
+                                  src={assetStore.getUrl(image.candidates[candidateEngine].backgroundRemovedId)}
+                                  alt={`${BACKGROUND_REMOVAL_ENGINE_LABELS[candidateEngine]} cutout of ${image.name}`}
+                                  className="w-full h-full object-contain"
+                                />
+                              </div>
+                              <div className="flex items-center justify-between mt-1">
+                                <span className="text-xs">{BACKGROUND_REMOVAL_ENGINE_LABELS[candidateEngine]}</span>
+                                {isPicked && <Badge className="text-[10px] px-1 py-0">Selected</Badge>}
+                              </div>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
                     
                     {/* Size and Quality Metrics */}
                     <div className="space-y-2 text-xs">
@@ -330,13 +432,23 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
                       </Badge>
                     </div>
                     
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setEditingImage(image)}
+                      className="w-full mt-2"
+                    >
+                      <Brush className="h-3 w-3 mr-1" />
+                      Refine Mask
+                    </Button>
+
                     {/* Download Button */}
                     <Button
                       size="sm"
                       variant="ghost"
                       onClick={() => {
                         const link = document.createElement('a');
-                        link.href = image.backgroundRemovedData;
+                        link.href = assetStore.getUrl(image.backgroundRemovedId);
                         link.download = `background_removed_${image.name}`;
                         document.body.appendChild(link);
                         link.click();
@@ -356,9 +468,21 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
           {/* Failed Images Section */}
           {failedImages.length > 0 && (
             <div className="space-y-4">
-              <div className="text-center">
+              <div className="text-center space-y-3">
                 <h2 className="text-xl font-semibold text-destructive">Failed Images</h2>
                 <p className="text-muted-foreground">These images failed to process. Click retry to try again.</p>
+                <div className="flex justify-center gap-2">
+                  <Button size="sm" onClick={() => retryImages(failedImages)} disabled={isRemoving}>
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Retry Failed ({failedImages.length})
+                  </Button>
+                  {isRemoving && (
+                    <Button size="sm" variant="outline" onClick={cancelRemoval}>
+                      <X className="h-3 w-3 mr-1" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -367,25 +491,24 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
                     <CardHeader>
                       <div className="flex items-center justify-between">
                         <CardTitle className="text-sm truncate">{image.name}</CardTitle>
-                        <Badge variant="destructive">
-                          Failed
-                        </Badge>
+                        <JobStatusBadge {...(jobs[image.name] ?? { status: 'failed', error: image.error })} />
                       </div>
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-4">
                         <img
-                          src={image.data}
+                          src={assetStore.getUrl(image.assetId)}
                           alt={`Failed ${image.name}`}
                           className="w-full h-24 object-cover rounded border"
                         />
                         <p className="text-xs text-destructive">{image.error}</p>
                         <Button
                           size="sm"
-                          onClick={() => retryFailedImage(image)}
+                          onClick={() => retryImages([image])}
                           className="w-full"
+                          disabled={isRemoving}
                         >
-                          <Loader2 className="h-3 w-3 mr-1" />
+                          <RotateCcw className="h-3 w-3 mr-1" />
                           Retry
                         </Button>
                       </div>
@@ -400,16 +523,28 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
             <Button variant="outline" onClick={onBack}>
               Back
             </Button>
+            <Button variant="outline" onClick={startOver} disabled={isRemoving}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Start Over
+            </Button>
             <Button 
               onClick={() => onContinue(processedImages)}
               className="min-w-[200px]"
-              disabled={processedImages.length === 0}
+              disabled={processedImages.length === 0 || isRemoving}
             >
-              Continue to Backdrop Selection ({processedImages.length} images)
+              {failedImages.length > 0
+                ? `Continue without ${failedImages.length} failed (${processedImages.length} images)`
+                : `Continue to Backdrop Selection (${processedImages.length} images)`}
               <ArrowRight className="ml-2 h-4 w-4" />
             </Button>
           </div>
         </div>
+
+        <MaskEditor
+          image={editingImage}
+          onSave={handleMaskSaved}
+          onClose={() => setEditingImage(null)}
+        />
       </div>
     );
   }
@@ -438,17 +573,17 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
           <CardContent>
             <div className="space-y-4">
               <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                {files.map((file, index) => (
+                {images.map((image, index) => (
                   <Card key={index} className="p-3">
                     <div className="space-y-3">
                       <img
-                        src={URL.createObjectURL(file)}
-                        alt={file.name}
+                        src={assetStore.getUrl(image.assetId)}
+                        alt={image.name}
                         className="w-full h-32 object-cover rounded border"
                       />
                       <div className="space-y-2">
                         <p className="text-xs font-medium truncate">
-                          {file.name}
+                          {image.name}
                         </p>
                         
                         {/* File Size Information */}
@@ -456,7 +591,7 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
                           <div className="flex justify-between items-center text-xs">
                             <span className="text-muted-foreground">Size:</span>
                             <Badge variant="outline" className="text-xs">
-                              {formatFileSize(file.size)}
+                              {formatFileSize(image.size)}
                             </Badge>
                           </div>
                           <Badge variant="outline" className="text-xs w-full justify-center">
@@ -469,14 +604,12 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
                           size="sm"
                           variant="ghost"
                           onClick={() => {
-                            const url = URL.createObjectURL(file);
                             const link = document.createElement('a');
-                            link.href = url;
-                            link.download = file.name;
+                            link.href = assetStore.getUrl(image.assetId);
+                            link.download = image.name;
                             document.body.appendChild(link);
                             link.click();
                             document.body.removeChild(link);
-                            URL.revokeObjectURL(url);
                           }}
                           className="w-full"
                         >
@@ -489,6 +622,33 @@ export const BackgroundRemovalStep: React.FC<BackgroundRemovalStepProps> = ({
                 ))}
               </div>
               
+              <div className="space-y-2">
+                <h4 className="font-medium">Segmentation Engine</h4>
+                <Tabs value={engine} onValueChange={(value) => setEngine(value as BackgroundRemovalEngine | 'compare')}>
+                  <TabsList className="grid w-full grid-cols-4">
+                    <TabsTrigger value="replicate">{BACKGROUND_REMOVAL_ENGINE_LABELS['replicate']}</TabsTrigger>
+                    <TabsTrigger value="gemini-mask" disabled={!canUseGemini}>{BACKGROUND_REMOVAL_ENGINE_LABELS['gemini-mask']}</TabsTrigger>
+                    <TabsTrigger value="compare" disabled={!canUseGemini}>Compare Both</TabsTrigger>
+                    <TabsTrigger value="chroma-key">{BACKGROUND_REMOVAL_ENGINE_LABELS['chroma-key']}</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <p className="text-xs text-muted-foreground">
+                  {engine === 'chroma-key'
+                    ? 'For shots on a seamless white or green sweep: the backdrop is keyed out in your browser, with no AI processing.'
+                    : canUseGemini
+                      ? `Gemini masks follow the ${productConfig.productType} and features you configured. Compare runs both so you can pick the better cutout per image.`
+                      : 'Configure a product type to use Gemini masks.'}
+                </p>
+              </div>
+
+              {engine === 'chroma-key' && (
+                <ChromaKeySettings
+                  previewAssetId={images[0]?.assetId}
+                  options={chromaKeyOptions}
+                  onChange={setChromaKeyOptions}
+                />
+              )}
+
               <div className="bg-muted/50 p-4 rounded-lg">
                 <h4 className="font-medium mb-2">Processing Details:</h4>
                 <ul className="text-sm text-muted-foreground space-y-1">
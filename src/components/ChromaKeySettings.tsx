@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Loader2, Undo2 } from "lucide-react";
+import { AssetId } from "@/lib/asset-store";
+import { loadPreviewBitmap } from "@/lib/canvas-utils";
+import { chromaKey } from "@/lib/pixel-ops";
+import { ChromaKeyOptions, DEFAULT_CHROMA_KEY } from "@/lib/chroma-key";
+
+const PREVIEW_MAX_SIZE = 480; // px, longest side of the keyed preview
+
+interface ChromaKeySettingsProps {
+  previewAssetId?: AssetId; // Image the settings are previewed on
+  options: ChromaKeyOptions;
+  onChange: (options: ChromaKeyOptions) => void;
+}
+
+export const ChromaKeySettings: React.FC<ChromaKeySettingsProps> = ({
+  previewAssetId,
+  options,
+  onChange
+}) => {
+  const [source, setSource] = useState<ImageBitmap | null>(null);
+  const [keyColor, setKeyColor] = useState<[number, number, number] | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!previewAssetId) return;
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+
+    loadPreviewBitmap(previewAssetId, PREVIEW_MAX_SIZE, 'chroma key preview')
+      .then(bitmap => {
+        loaded = bitmap;
+        if (cancelled) {
+          bitmap.close();
+        } else {
+          setSource(bitmap);
+        }
+      })
+      .catch(error => console.error('Failed to load chroma key preview:', error));
+
+    return () => {
+      cancelled = true;
+      loaded?.close();
+      setSource(null);
+    };
+  }, [previewAssetId]);
+
+  // Debounced so dragging a slider doesn't key the preview per tick
+  useEffect(() => {
+    if (!source) return;
+
+    const timer = setTimeout(() => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return;
+
+      canvas.width = source.width;
+      canvas.height = source.height;
+      ctx.drawImage(source, 0, 0);
+      const imageData = ctx.getImageData(0, 0, source.width, source.height);
+      setKeyColor(chromaKey(imageData.data, source.width, source.height, options));
+      ctx.putImageData(imageData, 0, 0);
+    }, 50);
+
+    return () => clearTimeout(timer);
+  }, [source, options]);
+
+  const updateOption = <K extends keyof ChromaKeyOptions>(key: K, value: ChromaKeyOptions[K]) => {
+    onChange({ ...options, [key]: value });
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6 bg-muted/50 rounded-lg p-4">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h4 className="font-medium">Chroma Key</h4>
+            {keyColor && (
+              <span
+                className="h-4 w-4 rounded border"
+                style={{ backgroundColor: `rgb(${keyColor.join(', ')})` }}
+                title={`Backdrop colour sampled from the border: rgb(${keyColor.join(', ')})`}
+              />
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(DEFAULT_CHROMA_KEY)}
+            disabled={JSON.stringify(options) === JSON.stringify(DEFAULT_CHROMA_KEY)}
+          >
+            <Undo2 className="h-4 w-4 mr-2" />
+            Reset
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Tolerance: {options.tolerance}%</Label>
+          <Slider
+            value={[options.tolerance]}
+            onValueChange={(value) => updateOption('tolerance', value[0])}
+            min={0}
+            max={50}
+            step={1}
+          />
+          <p className="text-xs text-muted-foreground">How far from the backdrop colour is still removed</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Softness: {options.softness}%</Label>
+          <Slider
+            value={[options.softness]}
+            onValueChange={(value) => updateOption('softness', value[0])}
+            min={0}
+            max={30}
+            step={1}
+          />
+          <p className="text-xs text-muted-foreground">Fades the edge instead of cutting it hard</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Spill Suppression: {Math.round(options.spill * 100)}%</Label>
+          <Slider
+            value={[options.spill]}
+            onValueChange={(value) => updateOption('spill', value[0])}
+            min={0}
+            max={1}
+            step={0.05}
+          />
+          <p className="text-xs text-muted-foreground">Removes the backdrop's colour cast, e.g. green reflected onto the product</p>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="chroma-contiguous">Only remove connected backdrop</Label>
+            <p className="text-xs text-muted-foreground">Keeps parts of the product that match the backdrop colour</p>
+          </div>
+          <Switch
+            id="chroma-contiguous"
+            checked={options.contiguous}
+            onCheckedChange={(checked) => updateOption('contiguous', checked)}
+          />
+        </div>
+      </div>
+
+      <div className="rounded-lg border bg-checkered flex items-center justify-center h-72 overflow-hidden">
+        {!source && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+        <canvas ref={canvasRef} className={`max-w-full max-h-72 ${source ? '' : 'hidden'}`} />
+      </div>
+    </div>
+  );
+};
@@ -1,41 +1,96 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { BackdropPositioning } from './BackdropPositioning';
 import { GalleryPreview } from './GalleryPreview';
 import { ImagePreviewStep } from './ImagePreviewStep';
 import { BackgroundRemovalStep } from './BackgroundRemovalStep';
+import { ProductConfig, ProductConfiguration } from './ProductConfiguration';
 import { ImageRotationStep } from './ImageRotationStep';
+import { EdgeRefinementStep } from './EdgeRefinementStep';
 import { 
+  SubjectBounds,
   SubjectPlacement,
-  compositeLayers
+  renderCompositions
 } from "@/lib/canvas-utils";
+import { CompositionDocument, DepthOfFieldSettings, SetShotLayout, createPositionedCompositions } from "@/lib/composition-document";
+import { isAbortError } from "@/lib/worker-pool";
+import { AssetId, assetStore, collectAssetIds } from "@/lib/asset-store";
+import { sessionStore } from "@/lib/session-store";
+import type { ReflectionOptions } from "@/lib/reflection-utils";
+import type { ShadowParams } from "@/lib/shadow-utils";
+import type { EdgeRefinementOptions } from "@/lib/edge-utils";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
-import { ShadowGenerationStep } from './ShadowGenerationStep';
+import { ShadowGenerationStep, ShadowResult } from './ShadowGenerationStep';
 
 interface CommercialEditingWorkflowProps {
   files: (File & { isPreCut?: boolean })[];
+  resumeState?: WorkflowSessionState | null; // Restored checkpoint to continue from instead of starting over
   onBack: () => void;
 }
 
-type WorkflowStep = 'analysis' | 'background-removal' | 'rotation' | 'shadow-generation' | 'positioning' | 'compositing' | 'complete' | 'precut-rotation';
+export type WorkflowStep = 'analysis' | 'product-config' | 'background-removal' | 'rotation' | 'edge-refinement' | 'shadow-generation' | 'positioning' | 'compositing' | 'complete' | 'precut-rotation';
 
+interface BackgroundRemovedImage {
+  name: string;
+  originalId?: AssetId;
+  backgroundRemovedId?: AssetId;
+  size: number;
+}
+
+// Every image is an AssetId into the asset store; base64 only exists transiently for edge function payloads
 interface ProcessedImages {
-  backgroundRemoved: Array<{ name: string; originalData: string; backgroundRemovedData: string; size: number; }>;
-  shadowed?: Array<{ name: string; shadowedData: string; }>;
-  cleanSubjects?: Array<{ name: string; cleanData: string; }>;
-  backdrop?: string;
-  placement?: SubjectPlacement;
-  finalComposited?: Array<{ name: string; compositedData: string; }>;
+  backgroundRemoved: BackgroundRemovedImage[];
+  unrefined?: BackgroundRemovedImage[]; // Cutouts before edge refinement, so it can be redone from scratch
+  edgeRefinement?: EdgeRefinementOptions;
+  shadowed?: ShadowResult[];
+  cleanSubjects?: Array<{ name: string; cleanId: AssetId; }>;
+  backdrop?: AssetId;
+  backdropFloorY?: number | null;
+  placements?: SubjectPlacement[]; // Per-image placement, same order as shadowed
+  setShot?: SetShotLayout | null; // When set, every product is composited onto one backdrop
+  depthOfField?: DepthOfFieldSettings | null; // Backdrop blur, when the user asked for it
+  finalComposited?: Array<{ name: string; compositedId: AssetId; }>;
+  compositions?: CompositionDocument[]; // Layered source of each finalComposited image
+  shadowParams?: ShadowParams;
+  reflectionOptions?: ReflectionOptions;
+}
+
+// Original uploads, kept so a resumed session can rebuild its input files
+export interface UploadedAsset {
+  name: string;
+  type: string;
+  isPreCut: boolean;
+  assetId: AssetId;
+}
+
+// Everything checkpointed to IndexedDB after each step
+export interface WorkflowSessionState {
+  currentStep: WorkflowStep;
+  uploads: UploadedAsset[];
+  processedImages: ProcessedImages;
+  processedSubjects: BackgroundRemovedImage[];
+  productConfig?: ProductConfig | null;
 }
 
 export const CommercialEditingWorkflow: React.FC<CommercialEditingWorkflowProps> = ({
   files,
+  resumeState,
   onBack
 }) => {
-  const [currentStep, setCurrentStep] = useState<WorkflowStep>('analysis');
-  const [processedImages, setProcessedImages] = useState<ProcessedImages>({ backgroundRemoved: [] });
-  const [processedSubjects, setProcessedSubjects] = useState<any[]>([]);
+  const [currentStep, setCurrentStep] = useState<WorkflowStep>(resumeState?.currentStep ?? 'analysis');
+  const [processedImages, setProcessedImages] = useState<ProcessedImages>(resumeState?.processedImages ?? { backgroundRemoved: [] });
+  const [processedSubjects, setProcessedSubjects] = useState<BackgroundRemovedImage[]>(resumeState?.processedSubjects ?? []);
+  const [productConfig, setProductConfig] = useState<ProductConfig | null>(resumeState?.productConfig ?? null);
+  const [uploads] = useState<UploadedAsset[]>(() => resumeState?.uploads ?? files.map(file => ({
+    name: file.name,
+    type: file.type,
+    isPreCut: !!file.isPreCut,
+    assetId: assetStore.put(file)
+  })));
+  const [compositingProgress, setCompositingProgress] = useState({ completed: 0, total: 0 });
+  const compositingAbortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
   // Analyze images on component mount
@@ -43,107 +98,129 @@ export const CommercialEditingWorkflow: React.FC<CommercialEditingWorkflowProps>
     analyzeImages();
   }, []);
 
+  // Images the workflow stops referencing (replaced cutouts, re-run shadows, re-edited masks) are released
+  // as soon as they drop out, instead of piling up in memory until the workflow is left
+  const referencedAssetsRef = useRef<Set<AssetId>>(new Set());
+  React.useEffect(() => {
+    const referenced = collectAssetIds({ uploads, processedImages, processedSubjects });
+    referencedAssetsRef.current.forEach(id => {
+      if (!referenced.has(id)) assetStore.release(id);
+    });
+    referencedAssetsRef.current = referenced;
+  }, [uploads, processedImages, processedSubjects]);
+
+  // Checkpoint after every step so a refresh can resume instead of losing paid results
+  React.useEffect(() => {
+    if (currentStep === 'analysis') return;
+    const state: WorkflowSessionState = { currentStep, uploads, processedImages, processedSubjects, productConfig };
+    sessionStore.save({ step: currentStep, imageCount: uploads.length }, state)
+      .catch(error => console.error('Failed to checkpoint workflow session:', error));
+  }, [currentStep, uploads, processedImages, processedSubjects, productConfig]);
+
   // Auto-start compositing when we have all required data
   React.useEffect(() => {
-    if (currentStep === 'compositing' && processedImages.backdrop && processedImages.placement && processedImages.backgroundRemoved.length > 0) {
+    if (currentStep === 'compositing' && processedImages.backdrop && processedImages.placements && processedImages.backgroundRemoved.length > 0) {
       startClientSideCompositing();
     }
-  }, [currentStep, processedImages.backdrop, processedImages.placement, processedImages.backgroundRemoved.length]);
+  }, [currentStep, processedImages.backdrop, processedImages.placements, processedImages.backgroundRemoved.length]);
 
   const analyzeImages = () => {
+    // A resumed session already knows its step
+    if (resumeState) return;
+
     // Check if all images are pre-cut (transparent backgrounds already removed)
     const allPreCut = files.every(file => file.isPreCut);
 
     if (allPreCut) {
       console.log('All images are pre-cut, skipping to rotation step');
-      // Convert files to processed image format for rotation
-      const preCutImages = files.map(file => ({
-        name: file.name,
-        originalData: '',
-        backgroundRemovedData: '',
-        size: file.size
+      // Pre-cut uploads are already transparent, so they go straight to the rotation step
+      const preCutImages = uploads.map((upload, index) => ({
+        name: upload.name,
+        originalId: upload.assetId,
+        backgroundRemovedId: upload.assetId,
+        size: files[index].size
       }));
-      
-      // Load file data for rotation step
-      Promise.all(files.map(file => {
-        return new Promise<string>((resolve) => {
-          const reader = new FileReader();
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.readAsDataURL(file);
-        });
-      })).then(dataUrls => {
-        const processedPreCutImages = preCutImages.map((img, index) => ({
-          ...img,
-          originalData: dataUrls[index],
-          backgroundRemovedData: dataUrls[index]
-        }));
-        setProcessedImages({ backgroundRemoved: processedPreCutImages });
-        setCurrentStep('precut-rotation');
-      });
+      setProcessedImages({ backgroundRemoved: preCutImages });
+      setCurrentStep('precut-rotation');
       return;
     }
 
     // Images are now pre-processed during upload to be 2048px max and under 5MB
-    // Go directly to background removal
+    // Product type and features guide segmentation, so they are asked for before background removal
+    setCurrentStep('product-config');
+  };
+
+  const handleProductConfigurationComplete = (config: ProductConfig) => {
+    console.log('Product configuration complete:', config);
+    setProductConfig(config);
     setCurrentStep('background-removal');
   };
 
-  const handleBackgroundRemovalComplete = (subjects: any[]) => {
+  // Leaving the workflow ends the session: nothing left to resume, and its images can go
+  const exitWorkflow = () => {
+    sessionStore.discard().catch(error => console.error('Failed to discard workflow session:', error));
+    assetStore.clear();
+    onBack();
+  };
+
+  // Cutouts change while the removal step is open (retries, engine picks, refined masks); it stays open for review
+  const handleBackgroundRemovalUpdate = (subjects: BackgroundRemovedImage[]) => {
+    console.log("Background removal updated. Received subjects:", subjects);
+    setProcessedSubjects(subjects);
+  };
+
+  const handleBackgroundRemovalComplete = (subjects: BackgroundRemovedImage[]) => {
     console.log("Background removal complete. Received subjects:", subjects);
     setProcessedSubjects(subjects);
     setCurrentStep('rotation'); 
   };
 
-  const handleRotationComplete = async (rotatedImages: Array<{
-    name: string;
-    originalData?: string;
-    backgroundRemovedData?: string;
-    size: number;
-  }>) => {
+  const handleRotationComplete = async (rotatedImages: BackgroundRemovedImage[]) => {
     console.log('handleRotationComplete - Received rotatedImages:', rotatedImages);
     
     // Ensure only transparent subject data is preserved
     const processedRotatedImages = rotatedImages.map((img) => {
-      const transparentSubjectData = img.backgroundRemovedData;
-      if (transparentSubjectData && !transparentSubjectData.includes('data:image/png')) {
+      const transparentSubjectId = img.backgroundRemovedId;
+      if (transparentSubjectId && assetStore.get(transparentSubjectId).type !== 'image/png') {
         console.error(`ERROR: Non-PNG data detected for ${img.name}`);
         throw new Error(`Invalid data format for ${img.name}. Must be PNG with transparency.`);
       }
       
       return {
         name: img.name,
-        originalData: '',
-        backgroundRemovedData: transparentSubjectData || '',
+        backgroundRemovedId: transparentSubjectId,
         size: img.size
       };
     });
     
     console.log('Rotation complete - Final processed images:', processedRotatedImages);
     setProcessedImages({ backgroundRemoved: processedRotatedImages });
-    setCurrentStep('shadow-generation');
+    setCurrentStep('edge-refinement');
   };
 
   const handleShadowGenerationComplete = (
-    shadowedImages: Array<{ name: string; shadowedData: string }>,
-    cleanSubjects: Array<{ name: string; cleanData: string }>
+    shadowedImages: ShadowResult[],
+    cleanSubjects: Array<{ name: string; cleanId: AssetId }>,
+    shadowParams: ShadowParams
   ) => {
     console.log('Shadow generation complete:', shadowedImages);
     console.log('Clean subjects received:', cleanSubjects);
     setProcessedImages(prev => ({ 
       ...prev, 
       shadowed: shadowedImages,
-      cleanSubjects: cleanSubjects
+      cleanSubjects: cleanSubjects,
+      shadowParams
     }));
     setCurrentStep('positioning');
   };
 
-  const handleShadowSkip = (cleanSubjects: Array<{ name: string; cleanData: string }>) => {
+  const handleShadowSkip = (cleanSubjects: Array<{ name: string; cleanId: AssetId }>) => {
     console.log('Shadow generation skipped');
     console.log('Clean subjects received:', cleanSubjects);
     // Use the transparent images as-is for shadowed array
     const shadowedFromTransparent = processedImages.backgroundRemoved.map(img => ({
       name: img.name,
-      shadowedData: img.backgroundRemovedData
+      shadowedId: img.backgroundRemovedId
     }));
     
     setProcessedImages(prev => ({ 
@@ -154,34 +231,70 @@ export const CommercialEditingWorkflow: React.FC<CommercialEditingWorkflowProps>
     setCurrentStep('positioning');
   };
 
-  const handlePreCutRotationComplete = async (rotatedImages: Array<{
-    name: string;
-    originalData?: string;
-    backgroundRemovedData?: string;
-    size: number;
-  }>) => {
+  const handlePreCutRotationComplete = async (rotatedImages: BackgroundRemovedImage[]) => {
     // For pre-cut images, ensure we only use the transparent data
     const processedRotatedImages = rotatedImages.map(img => ({
       name: img.name,
-      originalData: '',
-      backgroundRemovedData: img.backgroundRemovedData || img.originalData || '',
+      backgroundRemovedId: img.backgroundRemovedId || img.originalId,
       size: img.size
     }));
     
     console.log('Pre-cut rotation complete - maintaining transparent-only subjects');
     setProcessedImages({ backgroundRemoved: processedRotatedImages });
+    setCurrentStep('edge-refinement');
+  };
+
+  const handleEdgeRefinementComplete = (
+    refinedImages: Array<{ name: string; refinedId: AssetId }>,
+    edgeRefinement: EdgeRefinementOptions
+  ) => {
+    console.log('Edge refinement complete:', refinedImages);
+    setProcessedImages(prev => {
+      const unrefined = prev.unrefined ?? prev.backgroundRemoved;
+      return {
+        ...prev,
+        unrefined,
+        edgeRefinement,
+        shadowed: undefined, // Made from the previous cutouts
+        backgroundRemoved: unrefined.map((img, index) => ({
+          ...img,
+          backgroundRemovedId: refinedImages[index]?.refinedId ?? img.backgroundRemovedId,
+          size: refinedImages[index] ? assetStore.get(refinedImages[index].refinedId).size : img.size
+        }))
+      };
+    });
+    setCurrentStep('shadow-generation');
+  };
+
+  const handleEdgeRefinementSkip = () => {
+    console.log('Edge refinement skipped');
+    setProcessedImages(prev => ({
+      ...prev,
+      backgroundRemoved: prev.unrefined ?? prev.backgroundRemoved,
+      unrefined: undefined,
+      edgeRefinement: undefined,
+      shadowed: prev.unrefined ? undefined : prev.shadowed
+    }));
     setCurrentStep('shadow-generation');
   };
 
   const handlePositioningComplete = (
-    backdrop: string, 
-    placement: SubjectPlacement, 
+    backdrop: AssetId, 
+    placements: SubjectPlacement[], 
     addBlur: boolean, 
-    rotatedSubjects?: string[]
+    rotatedSubjects?: AssetId[],
+    floorY?: number | null,
+    reflectionOptions?: ReflectionOptions,
+    rotatedSubjectBounds?: Array<SubjectBounds | undefined>,
+    rotatedCleanSubjects?: AssetId[],
+    setShot?: SetShotLayout | null,
+    depthOfField?: DepthOfFieldSettings | null
   ) => {
     console.log('🎯 Positioning completed');
-    console.log(`📊 Backdrop format: ${backdrop?.substring(0, 50)}`);
-    console.log(`📐 Placement: ${JSON.stringify(placement)}`);
+    console.log(`📊 Backdrop type: ${assetStore.get(backdrop).type}`);
+    console.log(`📐 Placements: ${JSON.stringify(placements)}`);
+    console.log(`🌫️ Backdrop blur: ${addBlur ? `${Math.round((depthOfField?.strength ?? 0) * 100)}%` : 'off'}`);
+    const backdropBlur = addBlur ? depthOfField ?? null : null;
     
     // If rotated subjects are provided, update the processed subjects
     if (rotatedSubjects && rotatedSubjects.length > 0) {
@@ -189,33 +302,53 @@ export const CommercialEditingWorkflow: React.FC<CommercialEditingWorkflowProps>
       
       const updatedSubjects = processedSubjects.map((subject, index) => ({
         ...subject,
-        backgroundRemovedData: rotatedSubjects[index] || subject.backgroundRemovedData
+        backgroundRemovedId: rotatedSubjects[index] || subject.backgroundRemovedId
       }));
       
       if (processedImages.backgroundRemoved.length > 0) {
         const updatedBackgroundRemoved = processedImages.backgroundRemoved.map((subject, index) => ({
           ...subject,
-          backgroundRemovedData: rotatedSubjects[index] || subject.backgroundRemovedData
+          backgroundRemovedId: rotatedSubjects[index] || subject.backgroundRemovedId
         }));
         
         // Update shadowed images with rotated versions
         const updatedShadowed = processedImages.shadowed?.map((subject, index) => ({
           ...subject,
-          shadowedData: rotatedSubjects[index] || subject.shadowedData
+          shadowedId: rotatedSubjects[index] || subject.shadowedId,
+          subjectBounds: rotatedSubjectBounds?.[index] ?? subject.subjectBounds
+        }));
+
+        // Set shots draw clean cutouts over their shadows, so they must turn with the shadowed images
+        const updatedCleanSubjects = processedImages.cleanSubjects?.map((subject, index) => ({
+          ...subject,
+          cleanId: rotatedCleanSubjects?.[index] || subject.cleanId
         }));
         
         setProcessedImages(prev => ({ 
           ...prev, 
           backdrop, 
-          placement,
+          backdropFloorY: floorY,
+          placements,
+          setShot,
+          depthOfField: backdropBlur,
+          reflectionOptions,
           backgroundRemoved: updatedBackgroundRemoved,
-          shadowed: updatedShadowed
+          shadowed: updatedShadowed,
+          cleanSubjects: updatedCleanSubjects
         }));
       }
       
       setProcessedSubjects(updatedSubjects);
     } else {
-      setProcessedImages(prev => ({ ...prev, backdrop, placement }));
+      setProcessedImages(prev => ({
+        ...prev,
+        backdrop,
+        backdropFloorY: floorY,
+        placements,
+        setShot,
+        depthOfField: backdropBlur,
+        reflectionOptions
+      }));
     }
     
     setCurrentStep('compositing');
@@ -225,7 +358,7 @@ export const CommercialEditingWorkflow: React.FC<CommercialEditingWorkflowProps>
   const startClientSideCompositing = async () => {
     console.log('🚀 Starting client-side compositing workflow');
     
-    if (!processedImages.shadowed?.length || !processedImages.backdrop || !processedImages.placement) {
+    if (!processedImages.shadowed?.length || !processedImages.backdrop || !processedImages.placements?.length) {
       console.error('❌ Missing required data for compositing');
       toast({
         title: "Compositing Error", 
@@ -237,40 +370,44 @@ export const CommercialEditingWorkflow: React.FC<CommercialEditingWorkflowProps>
 
     console.log(`📋 Compositing ${processedImages.shadowed.length} subjects with shadows`);
 
-    const results: Array<{ name: string; compositedData: string }> = [];
+    const controller = new AbortController();
+    compositingAbortRef.current = controller;
 
     try {
-      // Composite each shadowed image with its clean subject for reflection
-      for (let i = 0; i < processedImages.shadowed.length; i++) {
-        const shadowedImage = processedImages.shadowed[i];
-        const cleanSubject = processedImages.cleanSubjects?.[i];
-        
-        console.log(`Compositing image ${i + 1}/${processedImages.shadowed.length}: ${shadowedImage.name}`);
-        
-        if (!cleanSubject) {
-          console.warn(`No clean subject found for ${shadowedImage.name}, compositing without reflection`);
-        }
-
-        // Client-side compositing with shadowed images and clean subjects for reflection generation
-        const compositedImage = await compositeLayers(
-          processedImages.backdrop,
-          shadowedImage.shadowedData,
-          cleanSubject?.cleanData || shadowedImage.shadowedData, // Fallback to shadowed if no clean subject
-          processedImages.placement
-        );
-        
-        console.log(`✅ Compositing complete for ${shadowedImage.name}`);
-        
-        results.push({
+      // Keep the layered document of each image so a single layer can be changed and re-rendered later.
+      // The positioning preview builds its documents the same way, so the render matches what was approved
+      const compositions: CompositionDocument[] = createPositionedCompositions({
+        backdrop: processedImages.backdrop,
+        floorY: processedImages.backdropFloorY,
+        depthOfField: processedImages.depthOfField,
+        subjects: processedImages.shadowed.map((shadowedImage, i) => ({
           name: shadowedImage.name,
-          compositedData: compositedImage
-        });
-      }
+          subject: shadowedImage.shadowedId,
+          cleanSubject: processedImages.cleanSubjects?.[i]?.cleanId,
+          placement: processedImages.placements[i] || processedImages.placements[0],
+          shadowGroundTint: shadowedImage.params?.groundTint,
+          subjectBounds: shadowedImage.subjectBounds
+        })),
+        reflectionSettings: processedImages.reflectionOptions,
+        setShot: processedImages.setShot
+      });
+
+      // Pixel work runs in the worker pool, so the UI stays responsive on large batches
+      const compositedIds = await renderCompositions(compositions, {
+        signal: controller.signal,
+        onProgress: (completed, total) => setCompositingProgress({ completed, total })
+      });
+
+      const results = compositions.map((composition, i) => ({
+        name: composition.name,
+        compositedId: compositedIds[i]
+      }));
       
       // Store final results
       setProcessedImages(prev => ({
         ...prev,
-        finalComposited: results
+        finalComposited: results,
+        compositions
       }));
       
       console.log(`✅ All images composited successfully: ${results.length} images`);
@@ -282,12 +419,24 @@ export const CommercialEditingWorkflow: React.FC<CommercialEditingWorkflowProps>
       
       setCurrentStep('complete');
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('⏹️ Compositing cancelled');
+        toast({
+          title: "Compositing Cancelled",
+          description: "Adjust the positioning and try again when ready.",
+        });
+        setCurrentStep('positioning');
+        return;
+      }
+
       console.error('Compositing error:', error);
       toast({
         title: "Compositing Failed",
         description: error instanceof Error ? error.message : 'Unknown error occurred',
         variant: "destructive"
       });
+    } finally {
+      compositingAbortRef.current = null;
     }
   };
 
@@ -295,33 +444,41 @@ export const CommercialEditingWorkflow: React.FC<CommercialEditingWorkflowProps>
     return null; // Auto-analysis in useEffect
   }
 
+  if (currentStep === 'product-config') {
+    return (
+      <ProductConfiguration
+        files={files}
+        initialConfig={productConfig}
+        onConfigurationComplete={handleProductConfigurationComplete}
+        onBack={exitWorkflow}
+      />
+    );
+  }
+
   if (currentStep === 'background-removal') {
     return (
       <BackgroundRemovalStep
-        files={files}
-        onProcessingComplete={handleBackgroundRemovalComplete}
+        images={uploads.map(upload => ({
+          name: upload.name,
+          assetId: upload.assetId,
+          size: assetStore.get(upload.assetId).size
+        }))}
+        productConfig={productConfig}
+        initialResults={processedSubjects}
+        onProcessingComplete={handleBackgroundRemovalUpdate}
         onContinue={handleBackgroundRemovalComplete}
-        onBack={onBack}
+        onBack={() => setCurrentStep('product-config')}
       />
     );
   }
 
   if (currentStep === 'rotation') {
     const rotationImages = processedSubjects.length > 0 
-      ? processedSubjects.map((subject) => {
-          const transparentData = subject.backgroundRemovedData || 
-                                subject.processedImageUrl || 
-                                subject.data ||
-                                subject.url ||
-                                '';
-          
-          return {
-            name: subject.original_filename || subject.name || 'Processed Image',
-            originalData: '',
-            backgroundRemovedData: transparentData,
-            size: subject.size || 0
-          };
-        })
+      ? processedSubjects.map((subject) => ({
+          name: subject.name || 'Processed Image',
+          backgroundRemovedId: subject.backgroundRemovedId,
+          size: subject.size || 0
+        }))
       : processedImages.backgroundRemoved;
 
     return (
@@ -337,9 +494,9 @@ export const CommercialEditingWorkflow: React.FC<CommercialEditingWorkflowProps>
   if (currentStep === 'precut-rotation') {
     const rotationImages = processedSubjects.length > 0 
       ? processedSubjects.map(subject => ({
-          name: subject.original_filename || subject.name || 'Pre-cut Image',
-          originalData: subject.backgroundRemovedData || subject.processedImageUrl,
-          backgroundRemovedData: subject.backgroundRemovedData || subject.processedImageUrl,
+          name: subject.name || 'Pre-cut Image',
+          originalId: subject.backgroundRemovedId,
+          backgroundRemovedId: subject.backgroundRemovedId,
           size: subject.size || 0
         }))
       : processedImages.backgroundRemoved;
@@ -348,40 +505,68 @@ export const CommercialEditingWorkflow: React.FC<CommercialEditingWorkflowProps>
       <ImageRotationStep
         images={rotationImages}
         onContinue={handlePreCutRotationComplete}
-        onBack={onBack}
+        onBack={exitWorkflow}
         isPreCut={true}
       />
     );
   }
 
+  if (currentStep === 'edge-refinement') {
+    const imagesForRefinement = (processedImages.unrefined ?? processedImages.backgroundRemoved).map(img => ({
+      name: img.name,
+      assetId: img.backgroundRemovedId
+    }));
+
+    return (
+      <EdgeRefinementStep
+        images={imagesForRefinement}
+        initialOptions={processedImages.edgeRefinement}
+        onComplete={handleEdgeRefinementComplete}
+        onSkip={handleEdgeRefinementSkip}
+        onBack={() => setCurrentStep(uploads.every(upload => upload.isPreCut) ? 'precut-rotation' : 'rotation')}
+      />
+    );
+  }
+
   if (currentStep === 'shadow-generation') {
     const imagesForShadows = processedImages.backgroundRemoved.map(img => ({
       name: img.name,
-      data: img.backgroundRemovedData
+      assetId: img.backgroundRemovedId
     }));
 
     return (
       <ShadowGenerationStep
         images={imagesForShadows}
+        initialParams={processedImages.shadowParams}
+        initialResults={processedImages.shadowed?.filter(result => result.params)}
         onComplete={handleShadowGenerationComplete}
         onSkip={handleShadowSkip}
-        onBack={() => setCurrentStep('rotation')}
+        onBack={() => setCurrentStep('edge-refinement')}
       />
     );
   }
 
   if (currentStep === 'positioning') {
     // Use shadowed images if available, otherwise fall back to transparent
-    const imagesForPositioning = processedImages.shadowed?.map(img => img.shadowedData) || 
-                                  processedImages.backgroundRemoved.map(img => img.backgroundRemovedData);
+    const imagesForPositioning = processedImages.shadowed?.map(img => img.shadowedId) || 
+                                  processedImages.backgroundRemoved.map(img => img.backgroundRemovedId);
     
-    // Pass clean subjects for CSS reflection preview
-    const cleanSubjectsForPositioning = processedImages.cleanSubjects?.map(c => c.cleanData) || [];
+    // Clean subjects are the reflection source
+    const cleanSubjectsForPositioning = processedImages.cleanSubjects?.map(c => c.cleanId) || [];
 
     return (
       <BackdropPositioning
         cutoutImages={imagesForPositioning}
         cleanSubjects={cleanSubjectsForPositioning}
+        subjectBounds={processedImages.shadowed?.map(img => img.subjectBounds)}
+        shadowGroundTints={processedImages.shadowed?.map(img => img.params?.groundTint)}
+        productDimensions={productConfig?.dimensions}
+        initialBackdrop={processedImages.backdrop}
+        initialPlacements={processedImages.placements}
+        initialFloorY={processedImages.backdropFloorY}
+        initialReflectionOptions={processedImages.reflectionOptions}
+        initialSetShot={processedImages.setShot}
+        initialDepthOfField={processedImages.depthOfField}
         onPositioningComplete={handlePositioningComplete}
         onBack={() => setCurrentStep('shadow-generation')}
       />
@@ -395,8 +580,16 @@ export const CommercialEditingWorkflow: React.FC<CommercialEditingWorkflowProps>
           <Loader2 className="w-12 h-12 mx-auto animate-spin text-primary" />
           <h2 className="text-2xl font-bold">Compositing Images...</h2>
           <p className="text-muted-foreground">
-            Please wait while we composite your images
+            {compositingProgress.total > 0
+              ? `Composited ${compositingProgress.completed} of ${compositingProgress.total} images`
+              : 'Please wait while we composite your images'}
           </p>
+          {compositingProgress.total > 0 && (
+            <Progress value={(compositingProgress.completed / compositingProgress.total) * 100} className="w-64 mx-auto" />
+          )}
+          <Button variant="outline" onClick={() => compositingAbortRef.current?.abort()}>
+            Cancel
+          </Button>
         </div>
       </div>
     );
@@ -405,19 +598,19 @@ export const CommercialEditingWorkflow: React.FC<CommercialEditingWorkflowProps>
   if (currentStep === 'complete') {
     const finalResults = processedImages.finalComposited?.map(result => ({
       name: result.name,
-      finalizedData: result.compositedData
+      finalizedId: result.compositedId
     })) || [];
     
     // Prepare transparent images for library
     const transparentImagesForLibrary = processedImages.backgroundRemoved.map(img => ({
       name: img.name,
-      data: img.backgroundRemovedData
+      assetId: img.backgroundRemovedId
     }));
     
     return (
       <GalleryPreview
         results={finalResults}
-        onBack={onBack}
+        onBack={exitWorkflow}
         title="Compositing Complete!"
         transparentImages={transparentImagesForLibrary}
         aiEnhancedImages={[]}
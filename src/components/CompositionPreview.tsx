@@ -0,0 +1,61 @@
+import React, { useEffect, useRef } from 'react';
+import { CompositionDocument, parseComposition, serializeComposition } from "@/lib/composition-document";
+import { renderCompositionPreview } from "@/lib/canvas-utils";
+
+const PREVIEW_MAX_SIZE = 800; // px, longest side the preview sources are decoded at
+
+interface CompositionPreviewProps {
+  doc: CompositionDocument;
+  outputWidth: number; // Full-size backdrop width, so pixel settings can be scaled down to the preview
+  className?: string;
+}
+
+/**
+ * A composition drawn by the final compositor at reduced resolution, stretched over its container
+ * Renders are debounced while the document changes; a render that finishes after a newer one started is dropped
+ */
+export const CompositionPreview: React.FC<CompositionPreviewProps> = ({ doc, outputWidth, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const cacheRef = useRef(new Map<string, Promise<ImageBitmap>>());
+  const docKey = serializeComposition(doc);
+
+  useEffect(() => {
+    const cache = cacheRef.current;
+    return () => {
+      cache.forEach(bitmap => bitmap.then(image => image.close(), () => undefined));
+      cache.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      try {
+        const rendered = await renderCompositionPreview(parseComposition(docKey), outputWidth, PREVIEW_MAX_SIZE, cacheRef.current);
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+
+        canvas.width = rendered.width;
+        canvas.height = rendered.height;
+        canvas.getContext('2d').drawImage(rendered, 0, 0);
+      } catch (error) {
+        console.error('Failed to render composition preview:', error);
+      }
+    }, 50);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [docKey, outputWidth]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      role="img"
+      aria-label={`Preview of ${doc.name}`}
+      className={`absolute inset-0 w-full h-full pointer-events-none ${className}`}
+    />
+  );
+};
@@ -0,0 +1,324 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, Loader2, Scissors, SkipForward, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AssetId, assetStore } from "@/lib/asset-store";
+import { createDomCanvas, getImageDimensions, loadPreviewBitmap } from "@/lib/canvas-utils";
+import { refineEdges } from "@/lib/pixel-ops";
+import {
+  DEFAULT_EDGE_REFINEMENT,
+  EdgeRefinementOptions,
+  NO_EDGE_REFINEMENT,
+  isSameEdgeRefinement,
+  refineCutouts
+} from "@/lib/edge-utils";
+
+const PREVIEW_MAX_SIZE = 800; // px, longest side of the before/after preview
+
+type PreviewMatte = 'white' | 'dark' | 'checkerboard';
+
+const MATTE_CLASSES: Record<PreviewMatte, string> = {
+  white: 'bg-white',
+  dark: 'bg-neutral-900',
+  checkerboard: 'bg-checkered'
+};
+
+interface EdgeRefinementStepProps {
+  images: Array<{
+    name: string;
+    assetId: AssetId;
+  }>;
+  initialOptions?: EdgeRefinementOptions; // e.g. from a resumed session
+  onComplete: (refinedImages: Array<{ name: string; refinedId: AssetId }>, options: EdgeRefinementOptions) => void;
+  onSkip: () => void;
+  onBack: () => void;
+}
+
+// Draw the untouched preview and its refined copy, both at preview size
+const renderRefinementPreview = (
+  before: HTMLCanvasElement,
+  after: HTMLCanvasElement,
+  source: ImageBitmap,
+  options: EdgeRefinementOptions,
+  pixelScale: number
+) => {
+  [before, after].forEach(canvas => {
+    canvas.width = source.width;
+    canvas.height = source.height;
+  });
+  before.getContext('2d').drawImage(source, 0, 0);
+
+  const { ctx } = createDomCanvas(source.width, source.height);
+  ctx.drawImage(source, 0, 0);
+  const imageData = ctx.getImageData(0, 0, source.width, source.height);
+  refineEdges(imageData.data, source.width, source.height, options, pixelScale);
+  after.getContext('2d').putImageData(imageData, 0, 0);
+};
+
+export const EdgeRefinementStep: React.FC<EdgeRefinementStepProps> = ({
+  images,
+  initialOptions,
+  onComplete,
+  onSkip,
+  onBack
+}) => {
+  const [options, setOptions] = useState<EdgeRefinementOptions>(initialOptions ?? DEFAULT_EDGE_REFINEMENT);
+  const [previewName, setPreviewName] = useState(images[0]?.name);
+  const [preview, setPreview] = useState<{ source: ImageBitmap; pixelScale: number } | null>(null);
+  const [comparePosition, setComparePosition] = useState(50);
+  const [matte, setMatte] = useState<PreviewMatte>('white');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const beforeRef = useRef<HTMLCanvasElement>(null);
+  const afterRef = useRef<HTMLCanvasElement>(null);
+  const { toast } = useToast();
+
+  const previewAssetId = (images.find(img => img.name === previewName) ?? images[0])?.assetId;
+
+  // Downscaled copy of the previewed cutout; pixelScale maps full-size pixel settings onto it
+  useEffect(() => {
+    if (!previewAssetId) return;
+    let cancelled = false;
+    let source: ImageBitmap | null = null;
+
+    Promise.all([loadPreviewBitmap(previewAssetId, PREVIEW_MAX_SIZE, 'edge preview'), getImageDimensions(previewAssetId)])
+      .then(([loaded, fullSize]) => {
+        source = loaded;
+        if (cancelled) {
+          loaded.close();
+        } else {
+          setPreview({ source: loaded, pixelScale: loaded.width / fullSize.width });
+        }
+      })
+      .catch(error => console.error('Failed to load edge refinement preview:', error));
+
+    return () => {
+      cancelled = true;
+      source?.close();
+      setPreview(null);
+    };
+  }, [previewAssetId]);
+
+  // Debounced so dragging a slider doesn't queue a render per tick
+  useEffect(() => {
+    if (!preview) return;
+
+    const timer = setTimeout(() => {
+      if (beforeRef.current && afterRef.current) {
+        renderRefinementPreview(beforeRef.current, afterRef.current, preview.source, options, preview.pixelScale);
+      }
+    }, 50);
+
+    return () => clearTimeout(timer);
+  }, [preview, options]);
+
+  const updateOption = <K extends keyof EdgeRefinementOptions>(key: K, value: EdgeRefinementOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const applyRefinement = async () => {
+    if (isSameEdgeRefinement(options, NO_EDGE_REFINEMENT)) {
+      onSkip();
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress(0);
+
+    try {
+      const refined = await refineCutouts(images, options, {
+        onProgress: (completed, total) => setProgress(Math.round((completed / total) * 100))
+      });
+
+      toast({
+        title: "✓ Edges Refined",
+        description: `Refined the edges of ${refined.length} ${refined.length === 1 ? 'cutout' : 'cutouts'}.`,
+      });
+      onComplete(refined, options);
+    } catch (error) {
+      console.error('Edge refinement error:', error);
+      toast({
+        title: "Edge Refinement Failed",
+        description: error instanceof Error ? error.message : 'Failed to refine edges. You can skip this step.',
+        variant: "destructive"
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-secondary/20 p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="text-center space-y-4">
+          <div className="flex items-center justify-center gap-2 text-primary">
+            <Scissors className="h-8 w-8" />
+            <h1 className="text-3xl font-bold">Edge Refinement</h1>
+          </div>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Clean up the edges of your cutouts so no trace of the original background shows on the new backdrop
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Refine Cutout Edges</CardTitle>
+            <CardDescription>
+              Feather, choke or expand the matte and remove colour fringes (optional)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {!isProcessing && (
+              <>
+                {images.length > 1 && (
+                  <div className="grid grid-cols-4 md:grid-cols-6 gap-3">
+                    {images.map(img => (
+                      <button
+                        key={img.name}
+                        type="button"
+                        onClick={() => setPreviewName(img.name)}
+                        className={`h-20 rounded-lg border-2 bg-checkered p-1 transition-colors ${
+                          img.name === previewName ? 'border-primary' : 'border-border hover:border-primary/50'
+                        }`}
+                        title={img.name}
+                      >
+                        <img src={assetStore.getUrl(img.assetId)} alt={img.name} className="w-full h-full object-contain" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <div className="bg-muted/50 rounded-lg p-6 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-semibold">Edge Settings</h3>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOptions(DEFAULT_EDGE_REFINEMENT)}
+                      disabled={isSameEdgeRefinement(options, DEFAULT_EDGE_REFINEMENT)}
+                    >
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Reset
+                    </Button>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Feather: {options.feather}px</Label>
+                    <Slider
+                      value={[options.feather]}
+                      onValueChange={(value) => updateOption('feather', value[0])}
+                      min={0}
+                      max={10}
+                      step={0.5}
+                    />
+                    <p className="text-xs text-muted-foreground">Softens the edge of the matte</p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Choke / Expand: {options.choke > 0 ? '+' : ''}{options.choke}px</Label>
+                    <Slider
+                      value={[options.choke]}
+                      onValueChange={(value) => updateOption('choke', value[0])}
+                      min={-5}
+                      max={5}
+                      step={1}
+                    />
+                    <p className="text-xs text-muted-foreground">Positive values shrink the matte to cut away a halo, negative values grow it back</p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Defringe: {Math.round(options.defringe * 100)}%</Label>
+                    <Slider
+                      value={[options.defringe]}
+                      onValueChange={(value) => updateOption('defringe', value[0])}
+                      min={0}
+                      max={1}
+                      step={0.05}
+                    />
+                    <p className="text-xs text-muted-foreground">Replaces background-coloured edge pixels with the colour of the product</p>
+                  </div>
+                </div>
+
+                {/* Before/after comparison: the refined cutout is revealed to the right of the divider */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <h4 className="text-sm font-medium">Before / After</h4>
+                    <Tabs value={matte} onValueChange={(value) => setMatte(value as PreviewMatte)}>
+                      <TabsList>
+                        <TabsTrigger value="white">White</TabsTrigger>
+                        <TabsTrigger value="dark">Dark</TabsTrigger>
+                        <TabsTrigger value="checkerboard">Transparent</TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                  </div>
+                  <div className={`relative rounded-lg border overflow-hidden flex items-center justify-center h-96 ${MATTE_CLASSES[matte]}`}>
+                    {!preview && <Loader2 className="h-8 w-8 animate-spin text-primary" />}
+                    <div className={`relative max-w-full max-h-full ${preview ? '' : 'hidden'}`}>
+                      <canvas ref={beforeRef} className="block max-w-full max-h-96" />
+                      <canvas
+                        ref={afterRef}
+                        className="absolute inset-0 w-full h-full"
+                        style={{ clipPath: `inset(0 0 0 ${comparePosition}%)` }}
+                      />
+                      <div
+                        className="absolute top-0 bottom-0 w-0.5 bg-primary pointer-events-none"
+                        style={{ left: `${comparePosition}%` }}
+                      />
+                    </div>
+                    <span className="absolute top-2 left-2 text-xs bg-black/50 text-white px-2 py-1 rounded">Before</span>
+                    <span className="absolute top-2 right-2 text-xs bg-black/50 text-white px-2 py-1 rounded">After</span>
+                  </div>
+                  <Slider
+                    value={[comparePosition]}
+                    onValueChange={(value) => setComparePosition(value[0])}
+                    min={0}
+                    max={100}
+                    step={1}
+                  />
+                </div>
+
+                <div className="flex gap-3">
+                  <Button onClick={applyRefinement} className="flex-1" size="lg">
+                    <Scissors className="h-4 w-4 mr-2" />
+                    Refine Edges & Continue ({images.length} {images.length === 1 ? 'image' : 'images'})
+                  </Button>
+                  <Button variant="outline" onClick={onSkip} size="lg">
+                    <SkipForward className="h-4 w-4 mr-2" />
+                    Skip
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {isProcessing && (
+              <div className="space-y-4">
+                <div className="flex items-center justify-center gap-3 py-8">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  <div className="text-center">
+                    <p className="text-lg font-medium">Refining edges...</p>
+                    <p className="text-sm text-muted-foreground">
+                      Processing {images.length} {images.length === 1 ? 'image' : 'images'}
+                    </p>
+                  </div>
+                </div>
+                <Progress value={progress} className="w-full" />
+              </div>
+            )}
+
+            <div className="pt-4 border-t">
+              <Button variant="ghost" onClick={onBack} disabled={isProcessing}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { X } from "lucide-react";
+
+interface FloorLineEditorProps {
+  imageUrl: string;
+  value: number | null; // Floor line in backdrop pixels (rows from the top), null when unset
+  onChange: (floorY: number | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Lets the user mark where the floor surface sits on a backdrop
+ * Click or drag on the image to place the line, fine-tune with the slider
+ */
+export const FloorLineEditor = ({ imageUrl, value, onChange, disabled = false }: FloorLineEditorProps) => {
+  const [naturalHeight, setNaturalHeight] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const fraction = value !== null && naturalHeight > 0 ? value / naturalHeight : null;
+
+  const setFromPointer = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (disabled || naturalHeight === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const y = Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height));
+    onChange(Math.round(y * naturalHeight));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Floor Line</Label>
+        {value !== null && (
+          <Button variant="ghost" size="sm" onClick={() => onChange(null)} disabled={disabled}>
+            <X className="h-3 w-3 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div
+        className="relative rounded-lg overflow-hidden border cursor-crosshair select-none"
+        onMouseDown={(e) => {
+          setIsDragging(true);
+          setFromPointer(e);
+        }}
+        onMouseMove={(e) => {
+          if (isDragging) setFromPointer(e);
+        }}
+        onMouseUp={() => setIsDragging(false)}
+        onMouseLeave={() => setIsDragging(false)}
+      >
+        <img
+          src={imageUrl}
+          alt="Backdrop"
+          className="w-full h-auto block"
+          draggable={false}
+          onLoad={(e) => setNaturalHeight(e.currentTarget.naturalHeight)}
+        />
+        {fraction !== null && (
+          <div
+            className="absolute left-0 right-0 border-t-2 border-dashed border-primary pointer-events-none"
+            style={{ top: `${fraction * 100}%` }}
+          >
+            <span className="absolute right-1 -top-6 bg-black/50 text-white px-2 py-0.5 rounded text-xs">
+              Floor: {value}px
+            </span>
+          </div>
+        )}
+      </div>
+
+      <Slider
+        value={[fraction !== null ? fraction * 100 : 0]}
+        onValueChange={(v) => naturalHeight > 0 && onChange(Math.round((v[0] / 100) * naturalHeight))}
+        min={0}
+        max={100}
+        step={0.1}
+        disabled={disabled || naturalHeight === 0}
+      />
+      <p className="text-xs text-muted-foreground">
+        Click the image where products should stand. Subjects can then be snapped onto this line automatically.
+      </p>
+    </div>
+  );
+};
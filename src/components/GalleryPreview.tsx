@@ -10,12 +10,13 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import JSZip from "jszip";
+import { AssetId, assetStore } from "@/lib/asset-store";
 
 interface ProcessedImage {
   name: string;
   originalData?: string; // base64
   processedData?: string; // base64  
-  finalizedData?: string; // V5 architecture
+  finalizedId?: AssetId; // Asset store reference
   size?: number;
   originalSize?: number;
   compressionRatio?: string;
@@ -29,8 +30,8 @@ interface GalleryPreviewProps {
   results: ProcessedImage[];
   onBack: () => void;
   title?: string;
-  transparentImages?: Array<{ name: string; data: string }>;
-  aiEnhancedImages?: Array<{ name: string; data: string }>;
+  transparentImages?: Array<{ name: string; assetId: AssetId }>;
+  aiEnhancedImages?: Array<{ name: string; assetId: AssetId }>;
 }
 
 export const GalleryPreview = ({ 
@@ -69,8 +70,17 @@ export const GalleryPreview = ({
     return image.customFilename || image.name;
   };
 
-  const getCurrentImageData = (image: ProcessedImage) => {
-    return image.retryEnhancedData || image.finalizedData || image.processedData || image.originalData;
+  const getCurrentImageSrc = (image: ProcessedImage) => {
+    if (image.retryEnhancedData) return image.retryEnhancedData;
+    if (image.finalizedId) return assetStore.getUrl(image.finalizedId);
+    return image.processedData || image.originalData;
+  };
+
+  // Base64 results (legacy fields) are moved into the asset store before uploading
+  const getCurrentImageAsset = async (image: ProcessedImage): Promise<AssetId | null> => {
+    if (image.finalizedId && !image.retryEnhancedData) return image.finalizedId;
+    const dataUrl = image.retryEnhancedData || image.processedData || image.originalData;
+    return dataUrl ? assetStore.putDataUrl(dataUrl) : null;
   };
 
   const downloadFile = (dataUrl: string, filename: string) => {
@@ -87,10 +97,14 @@ export const GalleryPreview = ({
       const zip = new JSZip();
       
       displayImages.forEach((image) => {
-        const imageData = getCurrentImageData(image);
+        const filename = getDisplayFilename(image);
+        if (image.finalizedId && !image.retryEnhancedData) {
+          zip.file(filename, assetStore.get(image.finalizedId));
+          return;
+        }
+        const imageData = getCurrentImageSrc(image);
         if (imageData) {
           const base64Data = imageData.replace(/^data:image\/[a-z]+;base64,/, '');
-          const filename = getDisplayFilename(image);
           zip.file(filename, base64Data, { base64: true });
         }
       });
@@ -130,23 +144,16 @@ export const GalleryPreview = ({
     }
 
     setIsSavingToLibrary(true);
+    // Assets made from the legacy base64 fields are only needed for the upload
+    const temporaryAssets: AssetId[] = [];
 
     try {
       // Prepare images for saving
-      const finalImagesToSave = displayImages.map(img => ({
-        name: getDisplayFilename(img),
-        data: getCurrentImageData(img) || ''
-      }));
-
-      const transparentImagesToSave = transparentImages.map(img => ({
-        name: img.name,
-        data: img.data
-      }));
-
-      const aiEnhancedImagesToSave = aiEnhancedImages.map(img => ({
-        name: img.name,
-        data: img.data
-      }));
+      const finalImagesToSave = (await Promise.all(displayImages.map(async img => {
+        const assetId = await getCurrentImageAsset(img);
+        if (assetId && assetId !== img.finalizedId) temporaryAssets.push(assetId);
+        return { name: getDisplayFilename(img), assetId };
+      }))).filter(img => img.assetId);
 
       const batchName = `Batch ${new Date().toLocaleDateString()} ${new Date().toLocaleTimeString()}`;
 
@@ -156,8 +163,8 @@ export const GalleryPreview = ({
       const result = await saveBatchToLibrary({
         userId: user.id,
         batchName,
-        transparentImages: transparentImagesToSave,
-        aiEnhancedImages: aiEnhancedImagesToSave,
+        transparentImages,
+        aiEnhancedImages,
         finalImages: finalImagesToSave
       });
 
@@ -177,6 +184,7 @@ export const GalleryPreview = ({
         variant: "destructive"
       });
     } finally {
+      temporaryAssets.forEach(id => assetStore.release(id));
       setIsSavingToLibrary(false);
     }
   };
@@ -273,7 +281,7 @@ export const GalleryPreview = ({
                 <CardContent className="space-y-3">
                   <div className="rounded-lg overflow-hidden bg-gradient-to-br from-background to-muted relative min-h-[300px] max-h-[500px] flex items-center justify-center">
                     <img
-                      src={getCurrentImageData(image)}
+                      src={getCurrentImageSrc(image)}
                       alt={image.name}
                       className="w-full h-full object-contain transition-transform hover:scale-105"
                       loading="lazy"
@@ -293,7 +301,7 @@ export const GalleryPreview = ({
                         size="sm"
                         variant="outline"
                         onClick={() => downloadFile(
-                          getCurrentImageData(image) || '',
+                          getCurrentImageSrc(image) || '',
                           getDisplayFilename(image)
                         )}
                         className="flex-1"
@@ -348,7 +356,7 @@ export const GalleryPreview = ({
                     <h4 className="font-medium">Processed</h4>
                     <div className="rounded-lg overflow-hidden bg-gradient-to-br from-background to-muted min-h-[300px] max-h-[500px] flex items-center justify-center">
                       <img
-                        src={getCurrentImageData(image)}
+                        src={getCurrentImageSrc(image)}
                         alt={`${image.name} - Processed`}
                         className="w-full h-full object-contain"
                       />
@@ -359,7 +367,7 @@ export const GalleryPreview = ({
                   <Button
                     size="sm"
                     onClick={() => downloadFile(
-                      getCurrentImageData(image) || '',
+                      getCurrentImageSrc(image) || '',
                       getDisplayFilename(image)
                     )}
                   >
@@ -380,7 +388,7 @@ export const GalleryPreview = ({
         >
           <div className="max-w-4xl max-h-full">
             <img
-              src={getCurrentImageData(displayImages[selectedImage])}
+              src={getCurrentImageSrc(displayImages[selectedImage])}
               alt={displayImages[selectedImage].name}
               className="max-w-full max-h-full object-contain"
               onClick={(e) => e.stopPropagation()}
@@ -5,18 +5,19 @@ import { Badge } from "@/components/ui/badge";
 import { RotateCw, RotateCcw, ArrowLeft, ArrowRight } from "lucide-react";
 import { rotateImageClockwise, rotateImageCounterClockwise } from "@/lib/image-rotation-utils";
 import { useToast } from "@/hooks/use-toast";
+import { AssetId, assetStore } from "@/lib/asset-store";
 
 interface ImageRotationStepProps {
   images: Array<{
     name: string;
-    originalData?: string;
-    backgroundRemovedData?: string;
+    originalId?: AssetId;
+    backgroundRemovedId?: AssetId;
     size: number;
   }>;
   onContinue: (rotatedImages: Array<{
     name: string;
-    originalData?: string;
-    backgroundRemovedData?: string;
+    originalId?: AssetId;
+    backgroundRemovedId?: AssetId;
     size: number;
   }>) => void;
   onBack: () => void;
@@ -41,14 +42,28 @@ export const ImageRotationStep: React.FC<ImageRotationStepProps> = ({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  // A turned image replaces the one before it; only the step's own results are released, never the workflow's
+  const releaseRotated = (previous: Array<AssetId | undefined>) => {
+    const incoming = new Set(images.flatMap(image => [image.originalId, image.backgroundRemovedId]));
+    new Set(previous).forEach(id => {
+      if (id && !incoming.has(id)) assetStore.release(id);
+    });
+  };
+
+  // Rotations made here are only kept by Continue
+  const handleBack = () => {
+    releaseRotated(currentImages.flatMap(image => [image.originalId, image.backgroundRemovedId]));
+    onBack();
+  };
+
   const rotateImageAtIndex = async (index: number, direction: 'clockwise' | 'counterclockwise') => {
     setIsRotating(index);
     
     try {
       const image = currentImages[index];
-      const targetData = isPreCut ? image.originalData || image.backgroundRemovedData : image.backgroundRemovedData;
+      const targetId = isPreCut ? image.originalId || image.backgroundRemovedId : image.backgroundRemovedId;
       
-      if (!targetData) {
+      if (!targetId) {
         toast({
           title: "Error",
           description: "No image data found to rotate",
@@ -57,21 +72,22 @@ export const ImageRotationStep: React.FC<ImageRotationStepProps> = ({
         return;
       }
 
-      const rotatedDataUrl = direction === 'clockwise' 
-        ? await rotateImageClockwise(targetData)
-        : await rotateImageCounterClockwise(targetData);
+      const rotatedId = direction === 'clockwise' 
+        ? await rotateImageClockwise(targetId)
+        : await rotateImageCounterClockwise(targetId);
 
       const updatedImages = [...currentImages];
+      releaseRotated([targetId]);
       if (isPreCut) {
         updatedImages[index] = {
           ...image,
-          originalData: rotatedDataUrl,
-          backgroundRemovedData: rotatedDataUrl
+          originalId: rotatedId,
+          backgroundRemovedId: rotatedId
         };
       } else {
         updatedImages[index] = {
           ...image,
-          backgroundRemovedData: rotatedDataUrl
+          backgroundRemovedId: rotatedId
         };
       }
       
@@ -94,13 +110,13 @@ export const ImageRotationStep: React.FC<ImageRotationStepProps> = ({
   };
 
   const getImageDataToDisplay = (image: typeof currentImages[0]) => {
-    // Use background removed data if available, otherwise use original data
-    if (image.backgroundRemovedData && image.backgroundRemovedData.startsWith('data:image/')) {
-      return image.backgroundRemovedData;
+    // Use background removed image if available, otherwise use the original
+    if (image.backgroundRemovedId && assetStore.has(image.backgroundRemovedId)) {
+      return assetStore.getUrl(image.backgroundRemovedId);
     }
     
-    if (image.originalData && image.originalData.startsWith('data:image/')) {
-      return image.originalData;
+    if (image.originalId && assetStore.has(image.originalId)) {
+      return assetStore.getUrl(image.originalId);
     }
     
     // Log if no valid data found for debugging
@@ -110,7 +126,7 @@ export const ImageRotationStep: React.FC<ImageRotationStepProps> = ({
 
   const getOriginalImageToDisplay = (image: typeof currentImages[0]) => {
     // Show original data if available, otherwise show the same as current
-    return image.originalData || getImageDataToDisplay(image);
+    return image.originalId ? assetStore.getUrl(image.originalId) : getImageDataToDisplay(image);
   };
 
   return (
@@ -185,7 +201,7 @@ export const ImageRotationStep: React.FC<ImageRotationStepProps> = ({
         </div>
 
         <div className="flex justify-between">
-          <Button variant="outline" onClick={onBack}>
+          <Button variant="outline" onClick={handleBack}>
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back
           </Button>
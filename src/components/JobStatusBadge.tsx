@@ -0,0 +1,27 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, Check, Clock, Loader2 } from "lucide-react";
+import type { JobStatus } from "@/lib/job-runner";
+
+const STATUS_DISPLAY: Record<JobStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline'; icon: React.ElementType }> = {
+  queued: { label: 'Queued', variant: 'outline', icon: Clock },
+  running: { label: 'Running', variant: 'secondary', icon: Loader2 },
+  failed: { label: 'Failed', variant: 'destructive', icon: AlertCircle },
+  done: { label: 'Done', variant: 'default', icon: Check }
+};
+
+interface JobStatusBadgeProps {
+  status: JobStatus;
+  error?: string; // Shown on hover for failed jobs
+}
+
+export const JobStatusBadge: React.FC<JobStatusBadgeProps> = ({ status, error }) => {
+  const { label, variant, icon: Icon } = STATUS_DISPLAY[status];
+
+  return (
+    <Badge variant={variant} className="gap-1 shrink-0" title={error}>
+      <Icon className={`h-3 w-3 ${status === 'running' ? 'animate-spin' : ''}`} />
+      {label}
+    </Badge>
+  );
+};
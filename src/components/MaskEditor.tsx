@@ -0,0 +1,451 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Brush, Eraser, Hand, Loader2, Redo2, Undo2, ZoomIn, ZoomOut, Maximize } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AssetId } from "@/lib/asset-store";
+import { loadImageElement } from "@/lib/canvas-utils";
+import { MaskBrushMode, applyMaskCanvas, drawMaskDab, drawMaskStroke, readMaskAlpha, writeMaskAlpha } from "@/lib/mask-utils";
+
+const MAX_HISTORY = 15; // undo steps kept; each is one byte per pixel of the original
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+
+type MaskTool = MaskBrushMode | 'pan';
+
+interface MaskEditorProps {
+  image: {
+    name: string;
+    originalId: AssetId;
+    backgroundRemovedId: AssetId;
+  } | null; // Open while an image is set
+  onSave: (backgroundRemovedId: AssetId) => void;
+  onClose: () => void;
+}
+
+// The original cut by the mask, optionally over a faint copy of what was removed so clipped parts can be found
+const renderMaskPreview = (
+  canvas: HTMLCanvasElement,
+  original: HTMLImageElement,
+  mask: HTMLCanvasElement,
+  showRemoved: boolean
+) => {
+  const ctx = canvas.getContext('2d');
+  const cutout = document.createElement('canvas');
+  cutout.width = mask.width;
+  cutout.height = mask.height;
+  const cutoutCtx = cutout.getContext('2d');
+
+  cutoutCtx.drawImage(original, 0, 0, mask.width, mask.height);
+  cutoutCtx.globalCompositeOperation = 'destination-in';
+  cutoutCtx.drawImage(mask, 0, 0);
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (showRemoved) {
+    ctx.globalAlpha = 0.25;
+    ctx.drawImage(original, 0, 0, canvas.width, canvas.height);
+    ctx.globalAlpha = 1;
+  }
+  ctx.drawImage(cutout, 0, 0);
+};
+
+/**
+ * Brush editor for a background removal result
+ * Add paints the original back in where the cutout clipped it, erase removes halos and leftovers;
+ * saving cuts the original again with the edited mask
+ */
+export const MaskEditor: React.FC<MaskEditorProps> = ({ image, onSave, onClose }) => {
+  const [source, setSource] = useState<{ original: HTMLImageElement; mask: HTMLCanvasElement } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('add');
+  const [brushSize, setBrushSize] = useState(24); // radius in image pixels
+  const [hardness, setHardness] = useState(0.7);
+  const [matte, setMatte] = useState<'checkerboard' | 'color'>('checkerboard');
+  const [matteColor, setMatteColor] = useState('#ffffff');
+  const [showRemoved, setShowRemoved] = useState(true);
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [cursor, setCursor] = useState<{ x: number; y: number; diameter: number } | null>(null);
+  const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const undoStack = useRef<Uint8ClampedArray[]>([]);
+  const redoStack = useRef<Uint8ClampedArray[]>([]);
+  const pointerRef = useRef<{ mode: 'paint' | 'pan'; x: number; y: number } | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const { toast } = useToast();
+
+  const maxBrushSize = source ? Math.max(10, Math.round(Math.max(source.mask.width, source.mask.height) / 8)) : 200;
+
+  // Mask starts as the cutout's alpha, at the size of the original photo
+  useEffect(() => {
+    setSource(null);
+    undoStack.current = [];
+    redoStack.current = [];
+    setHistorySize({ undo: 0, redo: 0 });
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+    if (!image) return;
+
+    let cancelled = false;
+    Promise.all([
+      loadImageElement(image.originalId, "original"),
+      loadImageElement(image.backgroundRemovedId, "cutout")
+    ])
+      .then(([original, cutout]) => {
+        if (cancelled) return;
+        const mask = document.createElement('canvas');
+        mask.width = original.naturalWidth;
+        mask.height = original.naturalHeight;
+        mask.getContext('2d', { willReadFrequently: true }).drawImage(cutout, 0, 0, mask.width, mask.height);
+        setSource({ original, mask });
+      })
+      .catch(error => console.error(`Failed to load ${image.name} for mask editing:`, error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!source || !canvas) return;
+    canvas.width = source.mask.width;
+    canvas.height = source.mask.height;
+    renderMaskPreview(canvas, source.original, source.mask, showRemoved);
+  }, [source, showRemoved]);
+
+  // Strokes fire many pointer events per frame; draw the preview at most once per frame
+  const schedulePreview = () => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      if (source && canvasRef.current) {
+        renderMaskPreview(canvasRef.current, source.original, source.mask, showRemoved);
+      }
+    });
+  };
+
+  const getMaskContext = () => source.mask.getContext('2d', { willReadFrequently: true });
+
+  const pushHistory = () => {
+    undoStack.current = [...undoStack.current, readMaskAlpha(getMaskContext(), source.mask.width, source.mask.height)]
+      .slice(-MAX_HISTORY);
+    redoStack.current = [];
+    setHistorySize({ undo: undoStack.current.length, redo: 0 });
+  };
+
+  const stepHistory = (direction: 'undo' | 'redo') => {
+    const from = direction === 'undo' ? undoStack : redoStack;
+    const to = direction === 'undo' ? redoStack : undoStack;
+    const snapshot = from.current[from.current.length - 1];
+    if (!source || !snapshot) return;
+
+    const ctx = getMaskContext();
+    to.current = [...to.current, readMaskAlpha(ctx, source.mask.width, source.mask.height)].slice(-MAX_HISTORY);
+    from.current = from.current.slice(0, -1);
+    writeMaskAlpha(ctx, snapshot, source.mask.width, source.mask.height);
+    setHistorySize({ undo: undoStack.current.length, redo: redoStack.current.length });
+    schedulePreview();
+  };
+
+  // Pointer position in mask pixels; the bounding rect already includes zoom and pan
+  const toMaskPoint = (e: React.PointerEvent) => {
+    const rect = canvasRef.current.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * source.mask.width,
+      y: ((e.clientY - rect.top) / rect.height) * source.mask.height
+    };
+  };
+
+  const getBrush = () => ({ mode: tool === 'erase' ? 'erase' as const : 'add' as const, radius: brushSize, hardness });
+
+  const updateCursor = (e: React.PointerEvent) => {
+    const viewport = viewportRef.current?.getBoundingClientRect();
+    const canvasRect = canvasRef.current?.getBoundingClientRect();
+    if (!viewport || !canvasRect || !source || tool === 'pan') return setCursor(null);
+    setCursor({
+      x: e.clientX - viewport.left,
+      y: e.clientY - viewport.top,
+      diameter: brushSize * 2 * (canvasRect.width / source.mask.width)
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!source || isSaving) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    // Middle button pans whatever the tool
+    if (tool === 'pan' || e.button === 1) {
+      pointerRef.current = { mode: 'pan', x: e.clientX, y: e.clientY };
+      return;
+    }
+    if (e.button !== 0) return;
+
+    pushHistory();
+    const point = toMaskPoint(e);
+    drawMaskDab(getMaskContext(), point.x, point.y, getBrush());
+    pointerRef.current = { mode: 'paint', ...point };
+    schedulePreview();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    updateCursor(e);
+    const pointer = pointerRef.current;
+    if (!pointer || !source) return;
+
+    if (pointer.mode === 'pan') {
+      setPan(prev => ({ x: prev.x + e.clientX - pointer.x, y: prev.y + e.clientY - pointer.y }));
+      pointerRef.current = { mode: 'pan', x: e.clientX, y: e.clientY };
+      return;
+    }
+
+    const point = toMaskPoint(e);
+    drawMaskStroke(getMaskContext(), pointer, point, getBrush());
+    pointerRef.current = { mode: 'paint', ...point };
+    schedulePreview();
+  };
+
+  const handlePointerUp = () => {
+    pointerRef.current = null;
+  };
+
+  // Zoom toward a point of the viewport (its centre for the buttons), keeping that point still
+  const zoomTo = (nextZoom: number, focus?: { x: number; y: number }) => {
+    const clamped = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, nextZoom));
+    const viewport = viewportRef.current?.getBoundingClientRect();
+    const fx = focus && viewport ? focus.x - viewport.width / 2 : 0;
+    const fy = focus && viewport ? focus.y - viewport.height / 2 : 0;
+
+    setPan(prev => clamped === MIN_ZOOM ? { x: 0, y: 0 } : {
+      x: fx - ((fx - prev.x) / zoom) * clamped,
+      y: fy - ((fy - prev.y) / zoom) * clamped
+    });
+    setZoom(clamped);
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const viewport = e.currentTarget.getBoundingClientRect();
+    zoomTo(zoom * (e.deltaY < 0 ? 1.2 : 1 / 1.2), { x: e.clientX - viewport.left, y: e.clientY - viewport.top });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement) return;
+    const key = e.key.toLowerCase();
+
+    if ((e.metaKey || e.ctrlKey) && key === 'z') {
+      e.preventDefault();
+      stepHistory(e.shiftKey ? 'redo' : 'undo');
+    } else if ((e.metaKey || e.ctrlKey) && key === 'y') {
+      e.preventDefault();
+      stepHistory('redo');
+    } else if (key === 'b') {
+      setTool('add');
+    } else if (key === 'e') {
+      setTool('erase');
+    } else if (key === 'h') {
+      setTool('pan');
+    } else if (key === '[' || key === ']') {
+      setBrushSize(prev => Math.max(1, Math.min(maxBrushSize, Math.round(prev * (key === ']' ? 1.2 : 1 / 1.2)))));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!image || !source) return;
+    setIsSaving(true);
+
+    try {
+      const refinedId = await applyMaskCanvas(image.originalId, source.mask);
+      toast({
+        title: "Mask Updated",
+        description: `Saved the refined cutout for ${image.name}.`,
+      });
+      onSave(refinedId);
+    } catch (error) {
+      console.error('Failed to apply refined mask:', error);
+      toast({
+        title: "Mask Update Failed",
+        description: error instanceof Error ? error.message : 'Failed to apply the refined mask.',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!image} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-5xl" onKeyDown={handleKeyDown}>
+        <DialogHeader>
+          <DialogTitle>Refine Mask</DialogTitle>
+          <DialogDescription>
+            Paint back parts of "{image?.name}" the background removal clipped, or erase halos and leftovers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_220px] gap-4">
+          <div
+            ref={viewportRef}
+            className={`relative h-[60vh] overflow-hidden rounded-lg border select-none touch-none ${
+              matte === 'checkerboard' ? 'bg-checkered' : ''
+            } ${tool === 'pan' ? 'cursor-grab' : 'cursor-none'}`}
+            style={matte === 'color' ? { backgroundColor: matteColor } : undefined}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onPointerLeave={() => setCursor(null)}
+            onWheel={handleWheel}
+          >
+            <div
+              className="absolute inset-0 flex items-center justify-center"
+              style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}
+            >
+              <canvas ref={canvasRef} className="max-w-full max-h-full" />
+            </div>
+
+            {!source && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            )}
+
+            {cursor && (
+              <div
+                className="absolute rounded-full border border-white pointer-events-none mix-blend-difference"
+                style={{
+                  left: cursor.x - cursor.diameter / 2,
+                  top: cursor.y - cursor.diameter / 2,
+                  width: cursor.diameter,
+                  height: cursor.diameter
+                }}
+              />
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Tool</Label>
+              <Tabs value={tool} onValueChange={(value) => setTool(value as MaskTool)}>
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="add" title="Add (B)"><Brush className="h-4 w-4" /></TabsTrigger>
+                  <TabsTrigger value="erase" title="Erase (E)"><Eraser className="h-4 w-4" /></TabsTrigger>
+                  <TabsTrigger value="pan" title="Pan (H)"><Hand className="h-4 w-4" /></TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Brush Size: {brushSize}px</Label>
+              <Slider
+                value={[brushSize]}
+                onValueChange={(value) => setBrushSize(value[0])}
+                min={1}
+                max={maxBrushSize}
+                step={1}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Hardness: {Math.round(hardness * 100)}%</Label>
+              <Slider
+                value={[hardness]}
+                onValueChange={(value) => setHardness(value[0])}
+                min={0}
+                max={1}
+                step={0.05}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Zoom: {Math.round(zoom * 100)}%</Label>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => zoomTo(zoom / 1.5)} disabled={zoom <= MIN_ZOOM}>
+                  <ZoomOut className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => zoomTo(zoom * 1.5)} disabled={zoom >= MAX_ZOOM}>
+                  <ZoomIn className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => zoomTo(MIN_ZOOM)} disabled={zoom === MIN_ZOOM}>
+                  <Maximize className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Preview</Label>
+              <Tabs value={matte} onValueChange={(value) => setMatte(value as 'checkerboard' | 'color')}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="checkerboard">Checkerboard</TabsTrigger>
+                  <TabsTrigger value="color">Matte</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {matte === 'color' && (
+                <Input
+                  type="color"
+                  value={matteColor}
+                  onChange={(e) => setMatteColor(e.target.value)}
+                  className="h-9 p-1"
+                />
+              )}
+              <div className="flex items-center justify-between">
+                <Label htmlFor="mask-show-removed" className="text-sm font-normal">Show removed areas</Label>
+                <Switch id="mask-show-removed" checked={showRemoved} onCheckedChange={setShowRemoved} />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => stepHistory('undo')}
+                disabled={historySize.undo === 0}
+              >
+                <Undo2 className="h-4 w-4 mr-1" />
+                Undo
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => stepHistory('redo')}
+                disabled={historySize.redo === 0}
+              >
+                <Redo2 className="h-4 w-4 mr-1" />
+                Redo
+              </Button>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Scroll to zoom, drag with the middle button to pan. [ and ] change the brush size.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!source || isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            {isSaving ? "Saving..." : "Save Mask"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,10 +4,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import type { PhysicalDimensions } from "@/lib/canvas-utils";
 import { ArrowRight, Package } from "lucide-react";
 
 interface ProductConfigurationProps {
   files: File[];
+  initialConfig?: ProductConfig | null; // e.g. when coming back from background removal
   onConfigurationComplete: (config: ProductConfig) => void;
   onBack: () => void;
 }
@@ -15,6 +18,7 @@ interface ProductConfigurationProps {
 export interface ProductConfig {
   productType: string;
   features: string[];
+  dimensions?: PhysicalDimensions; // Real-world product size, used to scale placement consistently
 }
 
 const PRODUCT_TYPES = [
@@ -104,11 +108,14 @@ const PRODUCT_FEATURES = {
 
 export const ProductConfiguration: React.FC<ProductConfigurationProps> = ({
   files,
+  initialConfig,
   onConfigurationComplete,
   onBack
 }) => {
-  const [productType, setProductType] = useState<string>("");
-  const [selectedFeatures, setSelectedFeatures] = useState<string[]>([]);
+  const [productType, setProductType] = useState<string>(initialConfig?.productType ?? "");
+  const [selectedFeatures, setSelectedFeatures] = useState<string[]>(initialConfig?.features ?? []);
+  const [widthCm, setWidthCm] = useState<string>(initialConfig?.dimensions?.widthCm?.toString() ?? "");
+  const [heightCm, setHeightCm] = useState<string>(initialConfig?.dimensions?.heightCm?.toString() ?? "");
 
   const handleFeatureChange = (featureId: string, checked: boolean) => {
     if (checked) {
@@ -122,7 +129,11 @@ export const ProductConfiguration: React.FC<ProductConfigurationProps> = ({
     if (productType) {
       onConfigurationComplete({
         productType,
-        features: selectedFeatures
+        features: selectedFeatures,
+        dimensions: {
+          widthCm: parseFloat(widthCm) > 0 ? parseFloat(widthCm) : null,
+          heightCm: parseFloat(heightCm) > 0 ? parseFloat(heightCm) : null
+        }
       });
     }
   };
@@ -187,6 +198,29 @@ export const ProductConfiguration: React.FC<ProductConfigurationProps> = ({
               </div>
             )}
 
+            <div className="space-y-2">
+              <Label>Real Dimensions (optional)</Label>
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  type="number"
+                  min={0}
+                  value={widthCm}
+                  onChange={(e) => setWidthCm(e.target.value)}
+                  placeholder="Width (cm)"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={heightCm}
+                  onChange={(e) => setHeightCm(e.target.value)}
+                  placeholder="Height (cm)"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Used to size products consistently on calibrated backdrops
+              </p>
+            </div>
+
             <div className="bg-muted/50 p-4 rounded-lg">
               <h4 className="font-medium mb-2">Files to Process:</h4>
               <div className="text-sm text-muted-foreground">
@@ -207,7 +241,7 @@ export const ProductConfiguration: React.FC<ProductConfigurationProps> = ({
             disabled={!productType}
             className="min-w-[200px]"
           >
-            Continue to Processing
+            Continue to Background Removal
             <ArrowRight className="ml-2 h-4 w-4" />
           </Button>
         </div>
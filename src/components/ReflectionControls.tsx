@@ -0,0 +1,107 @@
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  REFLECTION_PRESETS,
+  ReflectionOptions,
+  ReflectionSurface,
+  getReflectionSurface
+} from "@/lib/reflection-utils";
+
+interface ReflectionControlsProps {
+  value: ReflectionOptions;
+  onChange: (options: ReflectionOptions) => void;
+  disabled?: boolean;
+}
+
+const SURFACE_LABELS: Record<ReflectionSurface, string> = {
+  matte: 'Matte',
+  satin: 'Satin',
+  gloss: 'Gloss',
+  mirror: 'Mirror'
+};
+
+const SLIDERS: Array<{
+  key: Exclude<keyof ReflectionOptions, 'mode'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}> = [
+  { key: 'intensity', label: 'Intensity', min: 0, max: 1, step: 0.05, format: v => `${Math.round(v * 100)}%` },
+  { key: 'height', label: 'Height', min: 0.05, max: 1, step: 0.05, format: v => `${Math.round(v * 100)}% of product` },
+  { key: 'fadeStrength', label: 'Fade', min: 0, max: 1, step: 0.05, format: v => `${Math.round(v * 100)}%` },
+  { key: 'blur', label: 'Blur', min: 0, max: 20, step: 1, format: v => `${v}px` },
+  { key: 'offset', label: 'Gap', min: 0, max: 50, step: 1, format: v => `${v}px` },
+  { key: 'brightness', label: 'Brightness', min: 0.5, max: 2, step: 0.05, format: v => `${v.toFixed(2)}x` },
+  { key: 'contrast', label: 'Contrast', min: 0.5, max: 2, step: 0.05, format: v => `${v.toFixed(2)}x` },
+  { key: 'saturation', label: 'Saturation', min: 0, max: 2, step: 0.05, format: v => `${v.toFixed(2)}x` }
+];
+
+/**
+ * Reflection settings: pick a surface gloss preset, then fine-tune any value
+ * Blur and gap are in output (backdrop) pixels
+ */
+export const ReflectionControls = ({ value, onChange, disabled = false }: ReflectionControlsProps) => {
+  const surface = getReflectionSurface(value);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="reflection-surface">Surface</Label>
+        <Select
+          value={surface ?? 'custom'}
+          onValueChange={(next) => {
+            if (next in REFLECTION_PRESETS) {
+              onChange({ ...REFLECTION_PRESETS[next as ReflectionSurface], mode: value.mode });
+            }
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger id="reflection-surface">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SURFACE_LABELS) as ReflectionSurface[]).map(key => (
+              <SelectItem key={key} value={key}>{SURFACE_LABELS[key]}</SelectItem>
+            ))}
+            {!surface && <SelectItem value="custom">Custom</SelectItem>}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="reflection-contour">Follow product contour</Label>
+          <Switch
+            id="reflection-contour"
+            checked={value.mode === 'contour'}
+            onCheckedChange={(checked) => onChange({ ...value, mode: checked ? 'contour' : 'flip' })}
+            disabled={disabled}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          For products shot at an angle: mirrors each part of the product about where it touches the floor.
+        </p>
+      </div>
+
+      {SLIDERS.map(({ key, label, min, max, step, format }) => (
+        <div key={key} className="space-y-2">
+          <Label className="text-sm">
+            {label}: {format(value[key])}
+          </Label>
+          <Slider
+            min={min}
+            max={max}
+            step={step}
+            value={[value[key]]}
+            onValueChange={([next]) => onChange({ ...value, [key]: next })}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
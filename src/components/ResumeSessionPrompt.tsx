@@ -0,0 +1,62 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { History, Loader2, Trash2 } from "lucide-react";
+import { WorkflowSessionSummary } from "@/lib/session-store";
+
+interface ResumeSessionPromptProps {
+  session: WorkflowSessionSummary;
+  isResuming: boolean;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+const STEP_LABELS: Record<string, string> = {
+  'product-config': 'Product configuration',
+  'background-removal': 'Background removal',
+  'rotation': 'Rotation',
+  'precut-rotation': 'Rotation',
+  'edge-refinement': 'Edge refinement',
+  'shadow-generation': 'Shadow generation',
+  'positioning': 'Positioning',
+  'compositing': 'Compositing',
+  'complete': 'Finished images'
+};
+
+export const ResumeSessionPrompt: React.FC<ResumeSessionPromptProps> = ({
+  session,
+  isResuming,
+  onResume,
+  onDiscard
+}) => {
+  const savedAt = new Date(session.savedAt).toLocaleString();
+
+  return (
+    <Card className="max-w-2xl mx-auto mb-8 border-primary/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Resume your last session?
+        </CardTitle>
+        <CardDescription>
+          {session.imageCount} {session.imageCount === 1 ? 'image' : 'images'} at step "{STEP_LABELS[session.step] || session.step}", saved {savedAt}.
+          Starting a new upload replaces it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex gap-3">
+        <Button onClick={onResume} disabled={isResuming} className="flex-1">
+          {isResuming ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <History className="h-4 w-4 mr-2" />
+          )}
+          Resume Session
+        </Button>
+        <Button variant="outline" onClick={onDiscard} disabled={isResuming}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Discard
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
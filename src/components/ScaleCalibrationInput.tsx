@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ScaleCalibrationInputProps {
+  value: number | null; // Backdrop pixels per centimetre at the floor line, null when uncalibrated
+  onChange: (pixelsPerCm: number | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Backdrop scale calibration: measure a known reference (e.g. a 30cm ruler on the set)
+ * in backdrop pixels and enter both, or type the pixels-per-cm value directly
+ */
+export const ScaleCalibrationInput = ({ value, onChange, disabled = false }: ScaleCalibrationInputProps) => {
+  const [referenceCm, setReferenceCm] = useState("");
+  const [referencePx, setReferencePx] = useState("");
+
+  const updateReference = (cm: string, px: string) => {
+    setReferenceCm(cm);
+    setReferencePx(px);
+    const parsedCm = parseFloat(cm);
+    const parsedPx = parseFloat(px);
+    if (parsedCm > 0 && parsedPx > 0) {
+      onChange(Math.round((parsedPx / parsedCm) * 100) / 100);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label htmlFor="pixels-per-cm">Scale (pixels per cm)</Label>
+      <Input
+        id="pixels-per-cm"
+        type="number"
+        min={0}
+        step={0.01}
+        value={value ?? ""}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          onChange(parsed > 0 ? parsed : null);
+        }}
+        placeholder="Not calibrated"
+        disabled={disabled}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="number"
+          min={0}
+          value={referenceCm}
+          onChange={(e) => updateReference(e.target.value, referencePx)}
+          placeholder="Reference (cm)"
+          disabled={disabled}
+        />
+        <Input
+          type="number"
+          min={0}
+          value={referencePx}
+          onChange={(e) => updateReference(referenceCm, e.target.value)}
+          placeholder="Measured (px)"
+          disabled={disabled}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Measure an object of known length at the floor line of this backdrop. Products can then be sized by their real dimensions.
+      </p>
+    </div>
+  );
+};
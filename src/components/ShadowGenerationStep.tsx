@@ -1,30 +1,82 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Slider } from "@/components/ui/slider";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Loader2, Sparkles, SkipForward, ArrowLeft } from "lucide-react";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, Sparkles, SkipForward, ArrowLeft, RefreshCw, RotateCcw, Undo2, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useJobRunner } from "@/hooks/use-job-runner";
 import { supabase } from "@/integrations/supabase/client";
 import { generateReflections } from "@/lib/reflection-utils";
+import { AssetId, assetStore } from "@/lib/asset-store";
+import { SubjectBounds, createDomCanvas, loadPreviewBitmap } from "@/lib/canvas-utils";
+import { drawSubjectWithShadow } from "@/lib/pixel-ops";
+import {
+  ShadowEngine,
+  ShadowOptions,
+  ShadowParams,
+  generateShadow,
+  generateShadows as generateLocalShadows,
+  getShadowOptions,
+  isSameShadowOptions,
+  isSameShadowParams,
+  normalizeShadowParams
+} from "@/lib/shadow-utils";
+import { ShadowPresetPicker } from "@/components/ShadowPresetPicker";
+import { ShadowThumbnail } from "@/components/ShadowThumbnail";
+import { JobStatusBadge } from "@/components/JobStatusBadge";
+import { ShadowPreset, fetchShadowPresets } from "@/lib/shadow-presets";
+
+const PREVIEW_MAX_SIZE = 600; // px, longest side of the local live preview
+const CLOUDINARY_CONCURRENCY = 3; // images sent to add-drop-shadow side by side
+
+// One entry of the add-drop-shadow response; failed images come back unshadowed with an error
+interface ShadowResponseImage {
+  name: string;
+  shadowedData: string;
+  subjectBounds?: SubjectBounds;
+  error?: string;
+}
+
+// A generated shadow and the settings it was made with
+export interface ShadowResult {
+  name: string;
+  shadowedId: AssetId;
+  params?: ShadowParams; // Missing when generation failed and the subject came back unshadowed
+  subjectBounds?: SubjectBounds; // Where the subject sits in the padded shadow image; missing means it fills it
+}
 
 interface ShadowGenerationStepProps {
   images: Array<{
     name: string;
-    data: string;
+    assetId: AssetId;
   }>;
+  initialParams?: ShadowParams; // e.g. from a resumed session
+  initialResults?: ShadowResult[]; // Shadows generated earlier, e.g. when coming back from positioning
   onComplete: (
-    shadowedImages: Array<{ name: string; shadowedData: string }>,
-    cleanSubjects: Array<{ name: string; cleanData: string }>
+    shadowedImages: ShadowResult[],
+    cleanSubjects: Array<{ name: string; cleanId: AssetId }>,
+    params: ShadowParams
   ) => void;
-  onSkip: (cleanSubjects: Array<{ name: string; cleanData: string }>) => void;
+  onSkip: (cleanSubjects: Array<{ name: string; cleanId: AssetId }>) => void;
   onBack: () => void;
 }
 
+// Cloudinary colour and opacity chain, the same as add-drop-shadow builds for the final shadows:
+// colourise and fade the shadowed image, then overlay the original subject. Black at full opacity needs none of it
+const buildShadowStyleTransform = (publicId: string, color: string, opacity: number): string => {
+  const hex = color.replace('#', '').toLowerCase();
+  if ((hex === '000000' || hex === '000') && opacity >= 1) return '';
+  return `/co_rgb:${hex},e_colorize:100/o_${Math.round(opacity * 100)}/l_${publicId.replace(/\//g, ':')}/fl_layer_apply,g_center`;
+};
+
 export const ShadowGenerationStep: React.FC<ShadowGenerationStepProps> = ({
   images,
+  initialParams,
+  initialResults,
   onComplete,
   onSkip,
   onBack
@@ -32,37 +84,160 @@ export const ShadowGenerationStep: React.FC<ShadowGenerationStepProps> = ({
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [currentImage, setCurrentImage] = useState(0);
-  const [previewBefore, setPreviewBefore] = useState<string>('');
-  const [previewAfter, setPreviewAfter] = useState<string>('');
-  const [shadowedResults, setShadowedResults] = useState<Array<{ name: string; shadowedData: string }>>([]);
+  const [results, setResults] = useState<Record<string, ShadowResult>>(() =>
+    Object.fromEntries((initialResults || []).map(result => [result.name, result]))
+  );
+  const [rerunningName, setRerunningName] = useState<string | null>(null);
+  const { jobs, isRunning: isRetrying, run: runShadowJobs, cancel: cancelShadowJobs } = useJobRunner();
   const { toast } = useToast();
   
-  // Shadow parameters
-  const [azimuth, setAzimuth] = useState(0);
-  const [elevation, setElevation] = useState(90);
-  const [spread, setSpread] = useState(5);
+  // Batch shadow parameters (sessions saved before the local engine only have the first three)
+  const [params, setParams] = useState<ShadowParams>(() => normalizeShadowParams(initialParams));
+  const { engine } = params;
+  const batchOptions = useMemo(() => getShadowOptions(params), [params]);
+  const [presets, setPresets] = useState<ShadowPreset[]>([]);
+  const [presetsLoaded, setPresetsLoaded] = useState(false);
+
+  // Per-image settings for images that don't suit the batch default (e.g. flat items need a wider spread)
+  // Restored from earlier results whose settings differ from the batch
+  const [overrides, setOverrides] = useState<Record<string, ShadowOptions>>(() => {
+    const batch = normalizeShadowParams(initialParams);
+    return Object.fromEntries(
+      (initialResults || [])
+        .filter(result => result.params && !isSameShadowOptions(normalizeShadowParams(result.params), batch))
+        .map(result => [result.name, getShadowOptions(normalizeShadowParams(result.params))])
+    );
+  });
+  // Image whose settings the controls edit; null edits the batch default
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+
+  const getImageOptions = (name: string): ShadowOptions => overrides[name] ?? batchOptions;
+  const editingOptions = selectedName ? getImageOptions(selectedName) : batchOptions;
+  const { azimuth, elevation, spread, opacity, softness, color, groundTint } = editingOptions;
+  const previewImage = images.find(img => img.name === selectedName) ?? images[0];
+  const previewName = previewImage?.name;
+  const previewAssetId = previewImage?.assetId;
+
+  // Local preview state: a downscaled copy of the previewed subject, re-shadowed as the sliders move
+  const [previewSource, setPreviewSource] = useState<ImageBitmap | null>(null);
+  const localPreviewRef = useRef<HTMLCanvasElement>(null);
   
   // Cloudinary preview state
+  const [cloudinaryPreviewName, setCloudinaryPreviewName] = useState<string>('');
   const [cloudinaryPublicId, setCloudinaryPublicId] = useState<string>('');
   const [cloudinaryCloudName, setCloudinaryCloudName] = useState<string>('');
   const [isUploadingPreview, setIsUploadingPreview] = useState(false);
   const [livePreviewUrl, setLivePreviewUrl] = useState<string>('');
   
+  // Re-checked once an upload lands, in case another image was selected while it was running
   useEffect(() => {
     if (images.length > 0) {
-      setPreviewBefore(images[0].data);
       uploadPreviewToCloudinary();
     }
-  }, [images]);
+  }, [images, engine, previewName, cloudinaryPreviewName]);
+
+  // Start from the user's default preset; a resumed session keeps the settings it was saved with
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchShadowPresets()
+      .then(loaded => {
+        if (cancelled) return;
+        setPresets(loaded);
+        const preset = loaded.find(p => p.isDefault);
+        if (preset && !initialParams) {
+          console.log(`🌑 Applying default shadow preset "${preset.name}"`);
+          setParams(preset.settings);
+        }
+      })
+      .catch(error => console.warn('Could not load shadow presets:', error))
+      .finally(() => {
+        if (!cancelled) setPresetsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [initialParams]);
 
   useEffect(() => {
     if (cloudinaryPublicId && cloudinaryCloudName) {
       updateLivePreview();
     }
-  }, [azimuth, elevation, spread, cloudinaryPublicId, cloudinaryCloudName]);
+  }, [azimuth, elevation, spread, color, opacity, cloudinaryPublicId, cloudinaryCloudName]);
+
+  useEffect(() => {
+    if (!previewAssetId) return;
+    let cancelled = false;
+    let source: ImageBitmap | null = null;
+
+    loadPreviewBitmap(previewAssetId, PREVIEW_MAX_SIZE, 'shadow preview')
+      .then(loaded => {
+        source = loaded;
+        if (cancelled) {
+          loaded.close();
+        } else {
+          setPreviewSource(loaded);
+        }
+      })
+      .catch(error => console.error('Failed to load local shadow preview:', error));
+
+    return () => {
+      cancelled = true;
+      source?.close();
+      setPreviewSource(null);
+    };
+  }, [previewAssetId]);
+
+  // Debounced so dragging a slider doesn't queue a render per tick
+  useEffect(() => {
+    if (engine !== 'local' || !previewSource) return;
+
+    const timer = setTimeout(() => {
+      const canvas = localPreviewRef.current;
+      if (!canvas) return;
+
+      const { canvas: shadowed } = drawSubjectWithShadow(previewSource, editingOptions, createDomCanvas);
+      canvas.width = shadowed.width;
+      canvas.height = shadowed.height;
+      canvas.getContext('2d').drawImage(shadowed, 0, 0);
+    }, 50);
+
+    return () => clearTimeout(timer);
+  }, [engine, previewSource, editingOptions]);
+
+  // The engine is always batch-wide; everything else goes to the selected image when there is one
+  const updateParam = <K extends keyof ShadowParams>(key: K, value: ShadowParams[K]) => {
+    if (selectedName && key !== 'engine') {
+      setOverrides(prev => ({
+        ...prev,
+        [selectedName]: { ...(prev[selectedName] ?? batchOptions), [key]: value }
+      }));
+    } else {
+      setParams(prev => ({ ...prev, [key]: value }));
+    }
+  };
+
+  const applyPreset = (preset: ShadowParams) => {
+    if (selectedName) {
+      setOverrides(prev => ({ ...prev, [selectedName]: getShadowOptions(preset) }));
+      setParams(prev => ({ ...prev, engine: preset.engine }));
+    } else {
+      setParams(preset);
+    }
+  };
+
+  const resetToBatchDefault = (name: string) => {
+    setOverrides(prev => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  };
 
   const uploadPreviewToCloudinary = async () => {
-    if (images.length === 0) return;
+    // Only pay for the upload once Cloudinary is actually chosen, and only once per previewed image
+    if (!previewImage || engine !== 'cloudinary' || cloudinaryPreviewName === previewImage.name || isUploadingPreview) return;
     
     setIsUploadingPreview(true);
     console.log('Uploading preview image to Cloudinary...');
@@ -71,7 +246,7 @@ export const ShadowGenerationStep: React.FC<ShadowGenerationStepProps> = ({
       const { data, error } = await supabase.functions.invoke('add-drop-shadow', {
         body: { 
           uploadPreview: true,
-          image: images[0]
+          image: { name: previewImage.name, data: await assetStore.toDataUrl(previewImage.assetId) }
         }
       });
 
@@ -81,6 +256,7 @@ export const ShadowGenerationStep: React.FC<ShadowGenerationStepProps> = ({
         console.log('✅ Preview uploaded to Cloudinary:', data.publicId);
         setCloudinaryPublicId(data.publicId);
         setCloudinaryCloudName(data.cloudName);
+        setCloudinaryPreviewName(previewImage.name);
       } else {
         throw new Error('No publicId returned from preview upload');
       }
@@ -104,77 +280,140 @@ export const ShadowGenerationStep: React.FC<ShadowGenerationStepProps> = ({
     
     // Use c_lpad (letterbox pad) with multiplication syntax - VALID Cloudinary syntax
     // w_iw_mul_X multiplies the original width by X (this actually works!)
-    const transformUrl = `https://res.cloudinary.com/${cloudinaryCloudName}/image/upload/c_lpad,w_iw_mul_${paddingMultiplier},h_ih_mul_${paddingMultiplier},b_transparent/e_dropshadow:azimuth_${azimuth};elevation_${elevation};spread_${spread}/${cloudinaryPublicId}.png`;
+    const styleTransform = buildShadowStyleTransform(cloudinaryPublicId, color, opacity);
+    const transformUrl = `https://res.cloudinary.com/${cloudinaryCloudName}/image/upload/c_lpad,w_iw_mul_${paddingMultiplier},h_ih_mul_${paddingMultiplier},b_transparent/e_dropshadow:azimuth_${azimuth};elevation_${elevation};spread_${spread}${styleTransform}/${cloudinaryPublicId}.png`;
     const timestamp = Date.now();
     console.log('🔄 Updating live preview:', transformUrl);
-    console.log('Shadow params:', { azimuth, elevation, spread, paddingMultiplier });
+    console.log('Shadow params:', { azimuth, elevation, spread, color, opacity, paddingMultiplier });
     setLivePreviewUrl(`${transformUrl}?t=${timestamp}`);
   };
 
+  const getCleanSubjects = () => images.map(img => ({
+    name: img.name,
+    cleanId: img.assetId
+  }));
+
+  // Shadows replaced before they reach the workflow are released here; the clean subjects and the results
+  // the step was opened with belong to the workflow, which releases them itself
+  const releaseReplacedResults = (replaced: Array<ShadowResult | undefined>) => {
+    const kept = new Set([...images.map(img => img.assetId), ...(initialResults || []).map(result => result.shadowedId)]);
+    replaced.forEach(result => {
+      if (result && !kept.has(result.shadowedId)) assetStore.release(result.shadowedId);
+    });
+  };
+
+  const getResultParams = (name: string): ShadowParams => ({ ...getImageOptions(name), engine });
+
+  // A result is current when it was made with the image's present settings
+  const isResultCurrent = (result: ShadowResult | undefined): boolean => {
+    return !!result?.params && isSameShadowParams(normalizeShadowParams(result.params), getResultParams(result.name));
+  };
+
+  const requestCloudinaryShadows = async (batch: typeof images): Promise<ShadowResponseImage[]> => {
+    const payload = await Promise.all(batch.map(async img => {
+      const { azimuth, elevation, spread, color, opacity } = getImageOptions(img.name);
+      return { name: img.name, data: await assetStore.toDataUrl(img.assetId), azimuth, elevation, spread, color, opacity };
+    }));
+    const { data, error } = await supabase.functions.invoke('add-drop-shadow', {
+      body: { 
+        images: payload,
+        azimuth: batchOptions.azimuth,
+        elevation: batchOptions.elevation,
+        spread: batchOptions.spread,
+        color: batchOptions.color,
+        opacity: batchOptions.opacity
+      }
+    });
+
+    if (error) throw error;
+    if (!data?.images) {
+      throw new Error('No data returned from shadow generation');
+    }
+    return data.images;
+  };
+
+  const generateShadowsLocally = async (): Promise<ShadowResult[]> => {
+    const shadowed = await generateLocalShadows(
+      images.map(img => ({ ...img, options: getImageOptions(img.name) })),
+      batchOptions,
+      { onProgress: (completed, total) => setProgress(Math.round((completed / total) * 100)) }
+    );
+
+    toast({
+      title: "✓ Shadows Generated",
+      description: `Successfully added shadows to ${shadowed.length} images.`,
+    });
+
+    return shadowed.map(result => ({ ...result, params: getResultParams(result.name) }));
+  };
+
+  const requestCloudinaryShadow = async (image: typeof images[number]): Promise<ShadowResult> => {
+    const [response] = await requestCloudinaryShadows([image]);
+    if (response.error) throw new Error(response.error);
+    return {
+      name: image.name,
+      shadowedId: await assetStore.putDataUrl(response.shadowedData),
+      params: getResultParams(image.name),
+      subjectBounds: response.subjectBounds
+    };
+  };
+
+  // One request per image so a slow or failing image doesn't hold up the rest;
+  // images that fail keep their clean subject and show as stale until retried
+  const runCloudinaryJobs = async (batch: typeof images): Promise<{ shadowed: ShadowResult[]; failedCount: number }> => {
+    console.log(`☁️ Sending ${batch.length} images to Cloudinary for shadow generation...`);
+    const outcomes = await runShadowJobs(batch, img => img.name, requestCloudinaryShadow, {
+      concurrency: CLOUDINARY_CONCURRENCY
+    });
+
+    return {
+      shadowed: batch.map((img, index) => {
+        const outcome = outcomes[index];
+        return outcome.status === 'done' ? outcome.result : { name: img.name, shadowedId: img.assetId };
+      }),
+      failedCount: outcomes.filter(outcome => outcome.status === 'failed').length
+    };
+  };
+
   const generateShadows = async () => {
     setIsProcessing(true);
     setProgress(0);
 
     try {
-      console.log(`Starting shadow generation for ${images.length} images with params: azimuth=${azimuth}, elevation=${elevation}, spread=${spread}`);
-
-      // Step 1: Send to Cloudinary for shadow generation FIRST
-      console.log('☁️ Sending to Cloudinary for shadow generation...');
-      const { data, error } = await supabase.functions.invoke('add-drop-shadow', {
-        body: { 
-          images,
-          azimuth,
-          elevation,
-          spread
-        }
-      });
-
-      if (error) throw error;
-      
-      const shadowedImages = data.images;
-      
-      if (shadowedImages) {
-        setProgress(80);
-        
-        // Show preview of first result
-        if (shadowedImages.length > 0 && shadowedImages[0].shadowedData) {
-          setPreviewAfter(shadowedImages[0].shadowedData);
-        }
-
-        // Store results for manual confirmation
-        setShadowedResults(shadowedImages);
-
-        // Check for any errors
-        const failedImages = shadowedImages.filter((img: any) => img.error);
-        if (failedImages.length > 0) {
-          console.warn('Some images failed shadow generation:', failedImages);
-          toast({
-            title: "Partial Success",
-            description: `${shadowedImages.length - failedImages.length}/${shadowedImages.length} images processed successfully`,
-            variant: "default"
-          });
-        } else {
-          toast({
-            title: "✓ Shadows Generated",
-            description: `Successfully added drop shadows to ${shadowedImages.length} images.`,
-          });
-        }
+      console.log(`Starting ${engine} shadow generation for ${images.length} images with batch params:`, params, 'overrides:', overrides);
 
+      if (engine === 'local') {
+        const shadowedImages = await generateShadowsLocally();
+        releaseReplacedResults(Object.values(results));
+        setResults(Object.fromEntries(shadowedImages.map(result => [result.name, result])));
         setProgress(100);
         setIsProcessing(false);
-        
-        // Prepare clean subjects for CSS reflection
-        const cleanSubjects = images.map(img => ({
-          name: img.name,
-          cleanData: img.data
-        }));
-        
+
         // Auto-continue with all data
-        onComplete(shadowedImages, cleanSubjects);
-      } else {
-        throw new Error('No data returned from shadow generation');
+        onComplete(shadowedImages, getCleanSubjects(), params);
+        return;
+      }
+
+      const { shadowed, failedCount } = await runCloudinaryJobs(images);
+      releaseReplacedResults(Object.values(results));
+      setResults(Object.fromEntries(shadowed.map(result => [result.name, result])));
+      setIsProcessing(false);
+
+      if (failedCount > 0) {
+        // Stay on the step so the failed images can be retried before continuing
+        toast({
+          title: "Partial Success",
+          description: `${images.length - failedCount}/${images.length} images processed successfully. Retry the failed ones or continue without their shadows.`,
+          variant: "default"
+        });
+        return;
       }
 
+      toast({
+        title: "✓ Shadows Generated",
+        description: `Successfully added drop shadows to ${shadowed.length} images.`,
+      });
+      onComplete(shadowed, getCleanSubjects(), params);
     } catch (error) {
       console.error('Shadow generation error:', error);
       toast({
@@ -186,14 +425,73 @@ export const ShadowGenerationStep: React.FC<ShadowGenerationStepProps> = ({
     }
   };
 
+  const retryFailedShadows = async () => {
+    const failed = failedImages.filter(img => jobs[img.name].status === 'failed');
+    const { shadowed, failedCount } = await runCloudinaryJobs(failed);
+    releaseReplacedResults(failed.map(img => results[img.name]));
+    setResults(prev => ({ ...prev, ...Object.fromEntries(shadowed.map(result => [result.name, result])) }));
+
+    toast({
+      title: failedCount > 0 ? "Retry Failed" : "✓ Shadows Generated",
+      description: failedCount > 0
+        ? `${failedCount} of ${failed.length} images still failed.`
+        : `Added drop shadows to the ${failed.length} remaining ${failed.length === 1 ? 'image' : 'images'}.`,
+      variant: failedCount > 0 ? "destructive" : "default"
+    });
+  };
+
+  /**
+   * Regenerate one image's shadow with its current settings, leaving the rest of the batch alone
+   */
+  const rerunImage = async (name: string) => {
+    const image = images.find(img => img.name === name);
+    if (!image) return;
+
+    setRerunningName(name);
+    try {
+      let shadowedId: AssetId;
+      let subjectBounds: SubjectBounds | undefined;
+      if (engine === 'local') {
+        const shadowed = await generateShadow(image.assetId, getImageOptions(name));
+        shadowedId = assetStore.put(shadowed.blob);
+        subjectBounds = shadowed.subjectBounds;
+      } else {
+        const [response] = await requestCloudinaryShadows([image]);
+        if (response.error) throw new Error(response.error);
+        shadowedId = await assetStore.putDataUrl(response.shadowedData);
+        subjectBounds = response.subjectBounds;
+      }
+
+      releaseReplacedResults([results[name]]);
+      setResults(prev => ({ ...prev, [name]: { name, shadowedId, params: getResultParams(name), subjectBounds } }));
+      toast({
+        title: "✓ Shadow Updated",
+        description: `Re-ran the shadow for ${name}.`,
+      });
+    } catch (error) {
+      console.error(`Shadow re-run failed for ${name}:`, error);
+      toast({
+        title: "Shadow Re-run Failed",
+        description: error instanceof Error ? error.message : 'Failed to re-run the shadow.',
+        variant: "destructive"
+      });
+    } finally {
+      setRerunningName(null);
+    }
+  };
+
+  // Cloudinary jobs that failed (or are being retried) and haven't been re-run since
+  const failedImages = images.filter(img => jobs[img.name] && jobs[img.name].status !== 'done' && !isResultCurrent(results[img.name]));
+  const cloudinaryProgress = images.filter(img => jobs[img.name]?.status === 'done' || jobs[img.name]?.status === 'failed').length / Math.max(1, images.length) * 100;
+
+  const currentResults = images.map(img => results[img.name]);
+  const hasAllResults = images.length > 0 && currentResults.every(Boolean);
+
   const handleSkip = () => {
     console.log('⏭️ Shadows skipped - continuing with transparent subjects only');
     
-    const cleanSubjects = images.map(img => ({
-      name: img.name,
-      cleanData: img.data
-    }));
-    
+    const cleanSubjects = getCleanSubjects();
+
     toast({
       title: "Shadows skipped",
       description: "Continuing with transparent subjects only",
@@ -211,7 +509,7 @@ export const ShadowGenerationStep: React.FC<ShadowGenerationStepProps> = ({
             <h1 className="text-3xl font-bold">Drop Shadow Generation</h1>
           </div>
           <p className="text-muted-foreground max-w-2xl mx-auto">
-            Add professional drop shadows to your subjects using Cloudinary
+            Add realistic contact and cast shadows to your subjects, rendered locally or with Cloudinary
           </p>
         </div>
 
@@ -223,15 +521,100 @@ export const ShadowGenerationStep: React.FC<ShadowGenerationStepProps> = ({
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            {!isProcessing && !previewAfter && (
+            {!isProcessing && (
               <>
                 <div className="space-y-6">
+                  {/* Per-image settings */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-sm font-medium">Images</h4>
+                      <p className="text-xs text-muted-foreground">
+                        Select an image to give it its own settings
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+                      {images.map(img => {
+                        const result = results[img.name];
+                        const isCurrent = isResultCurrent(result);
+                        return (
+                          <ShadowThumbnail
+                            key={img.name}
+                            name={img.name}
+                            assetId={img.assetId}
+                            engine={engine}
+                            options={getImageOptions(img.name)}
+                            resultId={isCurrent ? result.shadowedId : undefined}
+                            isStale={!!result && !isCurrent}
+                            isCustomized={!!overrides[img.name]}
+                            isSelected={selectedName === img.name}
+                            isBusy={rerunningName === img.name}
+                            onSelect={() => setSelectedName(selectedName === img.name ? null : img.name)}
+                          />
+                        );
+                      })}
+                    </div>
+                  </div>
+
                   <div className="bg-muted/50 rounded-lg p-6 space-y-4">
                     <div className="flex items-start gap-3">
                       <Sparkles className="h-5 w-5 text-primary mt-1" />
                       <div className="flex-1">
-                        <h3 className="font-semibold mb-4">Shadow Configuration</h3>
-                        
+                        <h3 className="font-semibold mb-1">Shadow Configuration</h3>
+                        {selectedName ? (
+                          <div className="flex flex-wrap items-center gap-2 mb-4">
+                            <p className="text-sm text-muted-foreground flex-1">
+                              Settings for <span className="font-medium text-foreground">{selectedName}</span>
+                              {overrides[selectedName] ? '' : ' (using the batch default until you change something)'}
+                            </p>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => resetToBatchDefault(selectedName)}
+                              disabled={!overrides[selectedName]}
+                            >
+                              <Undo2 className="h-4 w-4 mr-2" />
+                              Use Batch Default
+                            </Button>
+                            {results[selectedName] && (
+                              <Button
+                                size="sm"
+                                onClick={() => rerunImage(selectedName)}
+                                disabled={!!rerunningName || isResultCurrent(results[selectedName])}
+                              >
+                                {rerunningName === selectedName ? (
+                                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                ) : (
+                                  <RefreshCw className="h-4 w-4 mr-2" />
+                                )}
+                                Re-run This Image
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="sm" onClick={() => setSelectedName(null)}>
+                              Edit Batch Default
+                            </Button>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-muted-foreground mb-4">
+                            Batch default: applies to every image without its own settings
+                          </p>
+                        )}
+
+                        <ShadowPresetPicker
+                          presets={presets}
+                          onPresetsChange={setPresets}
+                          value={{ ...editingOptions, engine }}
+                          onChange={applyPreset}
+                          disabled={!presetsLoaded}
+                        />
+
+                        {/* Engine */}
+                        <Tabs value={engine} onValueChange={(value) => updateParam('engine', value as ShadowEngine)} className="mb-4">
+                          <TabsList className="grid w-full grid-cols-2">
+                            <TabsTrigger value="local">Local (instant, offline)</TabsTrigger>
+                            <TabsTrigger value="cloudinary">Cloudinary</TabsTrigger>
+                          </TabsList>
+                        </Tabs>
+
                         {/* Azimuth Control */}
                         <div className="space-y-3 mb-4">
                           <Label htmlFor="azimuth" className="text-sm font-medium">
@@ -244,13 +627,13 @@ export const ShadowGenerationStep: React.FC<ShadowGenerationStepProps> = ({
                               max={360}
                               step={1}
                               value={[azimuth]}
-                              onValueChange={(value) => setAzimuth(value[0])}
+                              onValueChange={(value) => updateParam('azimuth', value[0])}
                               className="flex-1"
                             />
                             <Input
                               type="number"
                               value={azimuth}
-                              onChange={(e) => setAzimuth(Math.max(0, Math.min(360, parseInt(e.target.value) || 0)))}
+                              onChange={(e) => updateParam('azimuth', Math.max(0, Math.min(360, parseInt(e.target.value) || 0)))}
                               className="w-20"
                               min={0}
                               max={360}
@@ -270,13 +653,13 @@ export const ShadowGenerationStep: React.FC<ShadowGenerationStepProps> = ({
                               max={90}
                               step={1}
                               value={[elevation]}
-                              onValueChange={(value) => setElevation(value[0])}
+                              onValueChange={(value) => updateParam('elevation', value[0])}
                               className="flex-1"
                             />
                             <Input
                               type="number"
                               value={elevation}
-                              onChange={(e) => setElevation(Math.max(0, Math.min(90, parseInt(e.target.value) || 0)))}
+                              onChange={(e) => updateParam('elevation', Math.max(0, Math.min(90, parseInt(e.target.value) || 0)))}
                               className="w-20"
                               min={0}
                               max={90}
@@ -296,77 +679,204 @@ export const ShadowGenerationStep: React.FC<ShadowGenerationStepProps> = ({
                               max={100}
                               step={1}
                               value={[spread]}
-                              onValueChange={(value) => setSpread(value[0])}
+                              onValueChange={(value) => updateParam('spread', value[0])}
                               className="flex-1"
                             />
                             <Input
                               type="number"
                               value={spread}
-                              onChange={(e) => setSpread(Math.max(0, Math.min(100, parseInt(e.target.value) || 0)))}
+                              onChange={(e) => updateParam('spread', Math.max(0, Math.min(100, parseInt(e.target.value) || 0)))}
                               className="w-20"
                               min={0}
                               max={100}
                             />
                           </div>
                         </div>
+
+                        {/* Opacity Control */}
+                        <div className="space-y-3 mt-4">
+                          <Label htmlFor="shadow-opacity" className="text-sm font-medium">
+                            Opacity: {Math.round(opacity * 100)}% (darkness at the contact point)
+                          </Label>
+                          <Slider
+                            id="shadow-opacity"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={[opacity]}
+                            onValueChange={(value) => updateParam('opacity', value[0])}
+                          />
+                        </div>
+
+                        {engine === 'local' && (
+                          <div className="space-y-3 mt-4">
+                            {/* Softness Control */}
+                            <Label htmlFor="shadow-softness" className="text-sm font-medium">
+                              Softness: {softness} (edge blur)
+                            </Label>
+                            <Slider
+                              id="shadow-softness"
+                              min={0}
+                              max={100}
+                              step={1}
+                              value={[softness]}
+                              onValueChange={(value) => updateParam('softness', value[0])}
+                            />
+                          </div>
+                        )}
+
+                        {/* Colour Control */}
+                        <div className="space-y-3 mt-4">
+                          <Label htmlFor="shadow-color" className="text-sm font-medium">
+                            Colour: {color}
+                          </Label>
+                          <div className="flex gap-3 items-center">
+                            <Input
+                              id="shadow-color"
+                              type="color"
+                              value={color}
+                              onChange={(e) => updateParam('color', e.target.value)}
+                              className="w-16 h-10 p-1 cursor-pointer"
+                            />
+                            <Button variant="ghost" size="sm" onClick={() => updateParam('color', '#000000')} disabled={color === '#000000'}>
+                              Reset to black
+                            </Button>
+                          </div>
+                        </div>
+
+                        {/* Ground Tint Control */}
+                        <div className="space-y-3 mt-4">
+                          <Label htmlFor="shadow-ground-tint" className="text-sm font-medium">
+                            Ground tint: {Math.round(groundTint * 100)}% (takes on the backdrop colour when composited)
+                          </Label>
+                          <Slider
+                            id="shadow-ground-tint"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={[groundTint]}
+                            onValueChange={(value) => updateParam('groundTint', value[0])}
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Keeps shadows on beige or coloured sweeps from turning grey. Applied when the backdrop is added, so it isn't visible in this preview.
+                          </p>
+                        </div>
                       </div>
                     </div>
                   </div>
 
                   {/* Live Preview */}
-                  <div className="space-y-3">
-                    <h4 className="text-sm font-medium text-center">Live Cloudinary Drop Shadow Preview</h4>
-                    <div className="flex justify-center">
-                      <div className="w-full space-y-2">
-                        <div className="relative border-2 border-primary/50 rounded-lg overflow-auto bg-checkered flex items-center justify-center" style={{ minHeight: '800px', maxHeight: '1200px', width: '100%' }}>
-                          {isUploadingPreview ? (
-                            <div className="flex flex-col items-center gap-2">
-                              <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                              <p className="text-sm text-muted-foreground">Uploading to Cloudinary...</p>
-                            </div>
-                          ) : livePreviewUrl ? (
-                            <>
-                              <img 
-                                src={livePreviewUrl} 
-                                alt="Shadow preview with transformation" 
-                                className="object-contain"
-                                style={{ maxWidth: '50%', maxHeight: '50%' }}
-                                crossOrigin="anonymous"
-                                onLoad={() => {
-                                  console.log('✅ Preview image loaded successfully!');
-                                  console.log('URL:', livePreviewUrl);
-                                }}
-                                onError={(e) => {
-                                  console.error('❌ Failed to load preview image');
-                                  console.error('URL:', livePreviewUrl);
-                                  console.error('Error:', e);
-                                }}
-                              />
-                              <div className="absolute bottom-2 right-2 text-xs bg-black/50 text-white px-2 py-1 rounded">
-                                Az:{azimuth}° El:{elevation}° Sp:{spread}
+                  {engine === 'local' ? (
+                    <div className="space-y-3">
+                      <h4 className="text-sm font-medium text-center">Live Local Shadow Preview</h4>
+                      <div className="relative border-2 border-primary/50 rounded-lg overflow-hidden bg-checkered flex items-center justify-center min-h-[400px] p-4">
+                        {previewSource ? (
+                          <canvas ref={localPreviewRef} className="max-w-full max-h-[600px] object-contain" />
+                        ) : (
+                          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground text-center">
+                        Rendered in your browser from the product's outline; the full-size result uses the same engine.
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      <h4 className="text-sm font-medium text-center">Live Cloudinary Drop Shadow Preview</h4>
+                      <div className="flex justify-center">
+                        <div className="w-full space-y-2">
+                          <div className="relative border-2 border-primary/50 rounded-lg overflow-auto bg-checkered flex items-center justify-center" style={{ minHeight: '800px', maxHeight: '1200px', width: '100%' }}>
+                            {isUploadingPreview ? (
+                              <div className="flex flex-col items-center gap-2">
+                                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                                <p className="text-sm text-muted-foreground">Uploading to Cloudinary...</p>
                               </div>
-                            </>
-                          ) : (
-                            <p className="text-muted-foreground text-sm">Generating preview...</p>
-                          )}
+                            ) : livePreviewUrl ? (
+                              <>
+                                <img 
+                                  src={livePreviewUrl} 
+                                  alt="Shadow preview with transformation" 
+                                  className="object-contain"
+                                  style={{ maxWidth: '50%', maxHeight: '50%' }}
+                                  crossOrigin="anonymous"
+                                  onLoad={() => {
+                                    console.log('✅ Preview image loaded successfully!');
+                                    console.log('URL:', livePreviewUrl);
+                                  }}
+                                  onError={(e) => {
+                                    console.error('❌ Failed to load preview image');
+                                    console.error('URL:', livePreviewUrl);
+                                    console.error('Error:', e);
+                                  }}
+                                />
+                                <div className="absolute bottom-2 right-2 text-xs bg-black/50 text-white px-2 py-1 rounded">
+                                  Az:{azimuth}° El:{elevation}° Sp:{spread} Op:{Math.round(opacity * 100)}%
+                                </div>
+                              </>
+                            ) : (
+                              <p className="text-muted-foreground text-sm">Generating preview...</p>
+                            )}
+                          </div>
                         </div>
                       </div>
+                      <p className="text-xs text-muted-foreground text-center">
+                        Adjust the sliders above to see the Cloudinary drop shadow effect update in real-time. This preview shows the exact transformation that will be applied.
+                      </p>
                     </div>
-                    <p className="text-xs text-muted-foreground text-center">
-                      Adjust the sliders above to see the Cloudinary drop shadow effect update in real-time. This preview shows the exact transformation that will be applied.
-                    </p>
-                  </div>
+                  )}
                 </div>
 
+                {failedImages.length > 0 && (
+                  <div className="rounded-lg border border-destructive/50 p-4 space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className="text-sm font-medium text-destructive">
+                        {failedImages.length} {failedImages.length === 1 ? 'image' : 'images'} failed and will continue without a shadow
+                      </p>
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={retryFailedShadows} disabled={isRetrying || !!rerunningName}>
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Retry Failed
+                        </Button>
+                        {isRetrying && (
+                          <Button size="sm" variant="outline" onClick={cancelShadowJobs}>
+                            <X className="h-4 w-4 mr-2" />
+                            Cancel
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      {failedImages.map(img => (
+                        <div key={img.name} className="flex items-center justify-between gap-2 text-sm">
+                          <span className="truncate">{img.name}</span>
+                          <JobStatusBadge {...jobs[img.name]} />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex gap-3">
                   <Button
                     onClick={generateShadows}
                     className="flex-1"
                     size="lg"
+                    variant={hasAllResults ? 'outline' : 'default'}
+                    disabled={!!rerunningName || isRetrying}
                   >
                     <Sparkles className="h-4 w-4 mr-2" />
-                    Generate Shadows ({images.length} {images.length === 1 ? 'image' : 'images'})
+                    {hasAllResults ? 'Regenerate All' : 'Generate Shadows'} ({images.length} {images.length === 1 ? 'image' : 'images'})
                   </Button>
+                  {hasAllResults && (
+                    <Button
+                      onClick={() => onComplete(currentResults, getCleanSubjects(), params)}
+                      className="flex-1"
+                      size="lg"
+                      disabled={!!rerunningName || isRetrying}
+                    >
+                      Continue with Shadows & Reflections
+                    </Button>
+                  )}
                   <Button
                     variant="outline"
                     onClick={handleSkip}
@@ -390,69 +900,23 @@ export const ShadowGenerationStep: React.FC<ShadowGenerationStepProps> = ({
                     </p>
                   </div>
                 </div>
-                <Progress value={progress} className="w-full" />
-              </div>
-            )}
-
-            {previewAfter && !isProcessing && (
-              <div className="space-y-6">
-                <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4 text-center">
-                  <p className="text-sm text-green-800 dark:text-green-200 font-medium">
-                    ✓ Shadows generated successfully! Review the preview below on transparent background.
-                  </p>
-                </div>
-
-                <div className="grid md:grid-cols-2 gap-6">
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-medium text-center">Before (Transparent Background)</h4>
-                    <div className="relative border-2 border-border rounded-lg overflow-hidden flex items-center justify-center bg-checkered min-h-[300px] max-h-[500px]">
-                      <img 
-                        src={previewBefore} 
-                        alt="Before shadow" 
-                        className="w-full h-full object-contain"
-                      />
-                    </div>
-                  </div>
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-medium text-center">After (With Drop Shadow)</h4>
-                    <div className="relative border-2 border-primary/50 rounded-lg overflow-hidden flex items-center justify-center bg-checkered min-h-[300px] max-h-[500px]">
-                      <img 
-                        src={previewAfter} 
-                        alt="After shadow" 
-                        className="w-full h-full object-contain"
-                      />
+                <Progress value={engine === 'cloudinary' ? cloudinaryProgress : progress} className="w-full" />
+                {engine === 'cloudinary' && (
+                  <>
+                    <div className="max-h-48 overflow-y-auto space-y-2">
+                      {images.map(img => (
+                        <div key={img.name} className="flex items-center justify-between gap-2 text-sm">
+                          <span className="truncate">{img.name}</span>
+                          {jobs[img.name] && <JobStatusBadge {...jobs[img.name]} />}
+                        </div>
+                      ))}
                     </div>
-                  </div>
-                </div>
-
-                <div className="bg-muted/50 rounded-lg p-4">
-                  <p className="text-sm text-muted-foreground text-center">
-                    The checkerboard pattern indicates transparent areas. The shadow is now part of the image.
-                  </p>
-                </div>
-
-                <div className="flex gap-3">
-                  <Button
-                    onClick={() => {
-                      const cleanSubjects = images.map(img => ({
-                        name: img.name,
-                        cleanData: img.data
-                      }));
-                      onComplete(shadowedResults, cleanSubjects);
-                    }}
-                    className="flex-1"
-                    size="lg"
-                  >
-                    Continue with Shadows & Reflections
-                  </Button>
-                  <Button
-                    variant="outline"
-                    onClick={handleSkip}
-                    size="lg"
-                  >
-                    Skip Shadows Instead
-                  </Button>
-                </div>
+                    <Button variant="outline" onClick={cancelShadowJobs} className="w-full">
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </>
+                )}
               </div>
             )}
 
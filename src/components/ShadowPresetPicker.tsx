@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Save, Star, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ShadowPreset,
+  deleteShadowPreset,
+  saveShadowPreset,
+  setDefaultShadowPreset
+} from "@/lib/shadow-presets";
+import { ShadowParams, isSameShadowParams } from "@/lib/shadow-utils";
+
+interface ShadowPresetPickerProps {
+  presets: ShadowPreset[];
+  onPresetsChange: (presets: ShadowPreset[]) => void;
+  value: ShadowParams;
+  onChange: (params: ShadowParams) => void;
+  disabled?: boolean;
+}
+
+const sortByName = (presets: ShadowPreset[]) => [...presets].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Pick, save and manage the user's named shadow presets
+ * The selection follows the current values, so tweaking a slider after picking a preset shows "Custom"
+ */
+export const ShadowPresetPicker: React.FC<ShadowPresetPickerProps> = ({
+  presets,
+  onPresetsChange,
+  value,
+  onChange,
+  disabled = false
+}) => {
+  const [newName, setNewName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const { toast } = useToast();
+
+  const activePreset = presets.find(preset => isSameShadowParams(preset.settings, value)) || null;
+
+  const runPresetAction = async (action: () => Promise<void>, failureTitle: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failureTitle}:`, error);
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = () => runPresetAction(async () => {
+    const saved = await saveShadowPreset(newName, value);
+    onPresetsChange(sortByName([...presets.filter(p => p.id !== saved.id), saved]));
+    setNewName('');
+    toast({
+      title: "Preset Saved",
+      description: `"${saved.name}" is now in your shadow presets.`
+    });
+  }, "Failed to Save Preset");
+
+  const handleToggleDefault = () => runPresetAction(async () => {
+    const makeDefault = !activePreset.isDefault;
+    await setDefaultShadowPreset(makeDefault ? activePreset.id : null);
+    onPresetsChange(presets.map(p => ({ ...p, isDefault: makeDefault && p.id === activePreset.id })));
+  }, "Failed to Update Default");
+
+  const handleDelete = () => runPresetAction(async () => {
+    await deleteShadowPreset(activePreset.id);
+    onPresetsChange(presets.filter(p => p.id !== activePreset.id));
+  }, "Failed to Delete Preset");
+
+  return (
+    <div className="space-y-3 mb-4">
+      <div className="space-y-2">
+        <Label htmlFor="shadow-preset" className="text-sm font-medium">Preset</Label>
+        <div className="flex gap-2">
+          <Select
+            value={activePreset?.id ?? 'custom'}
+            onValueChange={(id) => {
+              const preset = presets.find(p => p.id === id);
+              if (preset) onChange(preset.settings);
+            }}
+            disabled={disabled || isBusy || presets.length === 0}
+          >
+            <SelectTrigger id="shadow-preset" className="flex-1">
+              <SelectValue placeholder={presets.length === 0 ? 'No saved presets' : 'Choose a preset'} />
+            </SelectTrigger>
+            <SelectContent>
+              {presets.map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.name}{preset.isDefault ? ' (default)' : ''}
+                </SelectItem>
+              ))}
+              {!activePreset && <SelectItem value="custom">Custom</SelectItem>}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleToggleDefault}
+            disabled={!activePreset || disabled || isBusy}
+            title={activePreset?.isDefault ? 'Stop using as default' : 'Use as default for new batches'}
+          >
+            <Star className={`h-4 w-4 ${activePreset?.isDefault ? 'fill-current text-primary' : ''}`} />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleDelete}
+            disabled={!activePreset || disabled || isBusy}
+            title="Delete preset"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Save current settings as..."
+          disabled={disabled || isBusy}
+        />
+        <Button
+          variant="secondary"
+          onClick={handleSave}
+          disabled={!newName.trim() || disabled || isBusy}
+        >
+          {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
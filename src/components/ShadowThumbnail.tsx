@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { AssetId, assetStore } from "@/lib/asset-store";
+import { createDomCanvas, loadPreviewBitmap } from "@/lib/canvas-utils";
+import { drawSubjectWithShadow } from "@/lib/pixel-ops";
+import { ShadowEngine, ShadowOptions } from "@/lib/shadow-utils";
+
+const THUMBNAIL_SIZE = 160; // px, longest side of the live thumbnail render
+
+interface ShadowThumbnailProps {
+  name: string;
+  assetId: AssetId;
+  engine: ShadowEngine;
+  options: ShadowOptions;
+  resultId?: AssetId; // Generated shadow, when it still matches the current settings
+  isStale?: boolean; // A shadow was generated, but with different settings
+  isCustomized?: boolean;
+  isSelected?: boolean;
+  isBusy?: boolean;
+  onSelect: () => void;
+}
+
+/**
+ * One image of the shadow batch: shows the generated shadow when it is current,
+ * otherwise a live local render of the image's settings
+ */
+export const ShadowThumbnail: React.FC<ShadowThumbnailProps> = ({
+  name,
+  assetId,
+  engine,
+  options,
+  resultId,
+  isStale = false,
+  isCustomized = false,
+  isSelected = false,
+  isBusy = false,
+  onSelect
+}) => {
+  const [source, setSource] = useState<ImageBitmap | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const showLivePreview = !resultId && engine === 'local';
+
+  useEffect(() => {
+    if (!showLivePreview) return;
+    let cancelled = false;
+    let bitmap: ImageBitmap | null = null;
+
+    loadPreviewBitmap(assetId, THUMBNAIL_SIZE, name)
+      .then(loaded => {
+        bitmap = loaded;
+        if (cancelled) {
+          loaded.close();
+        } else {
+          setSource(loaded);
+        }
+      })
+      .catch(error => console.error(`Failed to load shadow thumbnail for ${name}:`, error));
+
+    return () => {
+      cancelled = true;
+      bitmap?.close();
+      setSource(null);
+    };
+  }, [assetId, name, showLivePreview]);
+
+  // Debounced like the main preview; thumbnails are small, so this stays cheap across a batch
+  useEffect(() => {
+    if (!source) return;
+
+    const timer = setTimeout(() => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+
+      const { canvas: shadowed } = drawSubjectWithShadow(source, options, createDomCanvas);
+      canvas.width = shadowed.width;
+      canvas.height = shadowed.height;
+      canvas.getContext('2d').drawImage(shadowed, 0, 0);
+    }, 50);
+
+    return () => clearTimeout(timer);
+  }, [source, options]);
+
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className={`relative flex flex-col rounded-lg border-2 overflow-hidden text-left transition-colors ${
+        isSelected ? 'border-primary' : 'border-border hover:border-primary/50'
+      }`}
+    >
+      <div className="relative h-28 bg-checkered flex items-center justify-center p-1">
+        {resultId ? (
+          <img src={assetStore.getUrl(resultId)} alt={`${name} with shadow`} className="max-w-full max-h-full object-contain" />
+        ) : showLivePreview ? (
+          <canvas ref={canvasRef} className="max-w-full max-h-full object-contain" />
+        ) : (
+          <img src={assetStore.getUrl(assetId)} alt={name} className="max-w-full max-h-full object-contain" />
+        )}
+        {isBusy && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        )}
+      </div>
+      <div className="flex items-center gap-1 p-1.5">
+        <span className="text-xs truncate flex-1" title={name}>{name}</span>
+        {isCustomized && <Badge variant="secondary" className="text-[10px] px-1 py-0">Custom</Badge>}
+        {isStale && <Badge variant="outline" className="text-[10px] px-1 py-0">Outdated</Badge>}
+      </div>
+    </button>
+  );
+};
@@ -0,0 +1,50 @@
+import * as React from "react";
+import { JobOutcome, JobRunOptions, JobStatus, runJobs } from "@/lib/job-runner";
+
+export interface JobState {
+  status: JobStatus;
+  error?: string;
+}
+
+/**
+ * Per-item job statuses for a step, keyed by image name, with cancellation
+ * Running again only resets the items passed in, so a retry-failed pass keeps the rest's chips
+ */
+export function useJobRunner() {
+  const [jobs, setJobs] = React.useState<Record<string, JobState>>({});
+  const [isRunning, setIsRunning] = React.useState(false);
+  const controllerRef = React.useRef<AbortController | null>(null);
+
+  // Leaving the step cancels whatever it still has in flight
+  React.useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const run = React.useCallback(async <T, R>(
+    items: T[],
+    getKey: (item: T) => string,
+    job: (item: T, signal?: AbortSignal) => Promise<R>,
+    options: Omit<JobRunOptions, 'signal' | 'onStatus'> = {}
+  ): Promise<JobOutcome<R>[]> => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+
+    try {
+      return await runJobs(items, job, {
+        ...options,
+        signal: controller.signal,
+        onStatus: (index, status, error) => {
+          setJobs(prev => ({ ...prev, [getKey(items[index])]: { status, error } }));
+        }
+      });
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  }, []);
+
+  const cancel = React.useCallback(() => controllerRef.current?.abort(), []);
+
+  return { jobs, isRunning, run, cancel };
+}
@@ -23,6 +23,7 @@ export type Database = {
           floor_y_px: number | null
           id: string
           name: string
+          pixels_per_cm: number | null
           storage_path: string
           updated_at: string
           user_id: string
@@ -35,6 +36,7 @@ export type Database = {
           floor_y_px?: number | null
           id?: string
           name: string
+          pixels_per_cm?: number | null
           storage_path: string
           updated_at?: string
           user_id: string
@@ -47,6 +49,7 @@ export type Database = {
           floor_y_px?: number | null
           id?: string
           name?: string
+          pixels_per_cm?: number | null
           storage_path?: string
           updated_at?: string
           user_id?: string
@@ -240,6 +243,36 @@ export type Database = {
         }
         Relationships: []
       }
+      shadow_presets: {
+        Row: {
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          settings: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          settings: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          settings?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       system_health: {
         Row: {
           id: string
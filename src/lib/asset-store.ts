@@ -0,0 +1,232 @@
+/**
+ * Asset store for workflow images
+ * Keeps images as Blobs keyed by asset ID instead of base64 data URLs (roughly a third of the memory),
+ * owns every object URL handed to the UI, and spills to IndexedDB when a batch outgrows the memory budget
+ */
+
+export type AssetId = string;
+
+const ASSET_ID_PREFIX = 'asset:';
+const DB_NAME = 'photo-polisher-assets';
+const DB_VERSION = 1;
+const STORE_NAME = 'assets';
+const MEMORY_BUDGET_BYTES = 512 * 1024 * 1024; // 512MB of in-memory Blobs before spilling
+
+interface AssetEntry {
+  blob: Blob;
+  url?: string; // Object URL, created on first use
+  spilled: boolean; // Blob is backed by IndexedDB rather than held in memory
+}
+
+/**
+ * Asset IDs are plain strings, so they can sit anywhere an image reference used to
+ */
+export const isAssetId = (value: string | null | undefined): value is AssetId => {
+  return !!value && value.startsWith(ASSET_ID_PREFIX);
+};
+
+/**
+ * Every asset ID referenced anywhere in a JSON-like state tree
+ */
+export const collectAssetIds = (value: unknown, ids: Set<AssetId> = new Set()): Set<AssetId> => {
+  if (typeof value === 'string') {
+    if (isAssetId(value)) ids.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectAssetIds(item, ids));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectAssetIds(item, ids));
+  }
+  return ids;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export class AssetStore {
+  private static instance: AssetStore;
+
+  private assets = new Map<AssetId, AssetEntry>();
+  private memoryBytes = 0;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private isSpilling = false;
+
+  // Singleton pattern
+  static getInstance(): AssetStore {
+    if (!AssetStore.instance) {
+      AssetStore.instance = new AssetStore();
+    }
+    return AssetStore.instance;
+  }
+
+  /**
+   * Store a Blob (or File) and return its asset ID
+   */
+  put(blob: Blob): AssetId {
+    const id = `${ASSET_ID_PREFIX}${crypto.randomUUID()}`;
+    this.assets.set(id, { blob, spilled: false });
+    this.memoryBytes += blob.size;
+
+    if (this.memoryBytes > MEMORY_BUDGET_BYTES) {
+      this.spillToDisk().catch(error => console.error('Failed to spill assets to IndexedDB:', error));
+    }
+
+    return id;
+  }
+
+  /**
+   * Store a data URL (e.g. an edge function response) as binary
+   */
+  async putDataUrl(dataUrl: string): Promise<AssetId> {
+    const response = await fetch(dataUrl);
+    return this.put(await response.blob());
+  }
+
+  /**
+   * Register a Blob under an existing asset ID, e.g. when resuming a saved session
+   */
+  restore(id: AssetId, blob: Blob) {
+    if (this.assets.has(id)) return;
+    this.assets.set(id, { blob, spilled: false });
+    this.memoryBytes += blob.size;
+  }
+
+  has(id: AssetId): boolean {
+    return this.assets.has(id);
+  }
+
+  get(id: AssetId): Blob {
+    const entry = this.assets.get(id);
+    if (!entry) {
+      throw new Error(`Unknown asset: ${id}`);
+    }
+    return entry.blob;
+  }
+
+  /**
+   * Object URL for display; the store revokes it when the asset is released
+   */
+  getUrl(id: AssetId): string {
+    const entry = this.assets.get(id);
+    if (!entry) {
+      console.warn(`Requested URL for unknown asset: ${id}`);
+      return '';
+    }
+    if (!entry.url) {
+      entry.url = URL.createObjectURL(entry.blob);
+    }
+    return entry.url;
+  }
+
+  /**
+   * Base64 data URL, only for payloads that must travel as JSON (edge functions)
+   */
+  toDataUrl(id: AssetId): Promise<string> {
+    const blob = this.get(id);
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  release(id: AssetId) {
+    const entry = this.assets.get(id);
+    if (!entry) return;
+
+    if (entry.url) URL.revokeObjectURL(entry.url);
+    if (entry.spilled) {
+      this.deleteFromDisk(id).catch(error => console.error(`Failed to delete spilled asset ${id}:`, error));
+    } else {
+      this.memoryBytes -= entry.blob.size;
+    }
+    this.assets.delete(id);
+  }
+
+  /**
+   * Release every asset, e.g. when the workflow is left
+   */
+  clear() {
+    for (const id of Array.from(this.assets.keys())) {
+      this.release(id);
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => {
+          // Spilled Blobs never outlive the page, so anything left from an earlier visit is stale
+          const db = request.result;
+          requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear())
+            .then(() => resolve(db), reject);
+        };
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async deleteFromDisk(id: AssetId) {
+    const db = await this.openDatabase();
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(id));
+  }
+
+  /**
+   * Move the oldest in-memory Blobs into IndexedDB until back under budget
+   * Blobs read back from IndexedDB are disk-backed, so the entry keeps a cheap handle and `get` stays synchronous.
+   * Assets with a live object URL are skipped: the URL would keep the in-memory Blob alive anyway.
+   */
+  private async spillToDisk() {
+    if (this.isSpilling) return;
+    this.isSpilling = true;
+
+    try {
+      const db = await this.openDatabase();
+
+      for (const [id, entry] of this.assets) {
+        if (this.memoryBytes <= MEMORY_BUDGET_BYTES) break;
+        if (entry.spilled || entry.url) continue;
+
+        await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry.blob, id));
+        const stored = await requestToPromise<Blob>(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(id));
+
+        // The asset may have been released or given a URL while we were writing
+        const current = this.assets.get(id);
+        if (current !== entry || entry.url) {
+          await this.deleteFromDisk(id);
+          continue;
+        }
+
+        this.memoryBytes -= entry.blob.size;
+        entry.blob = stored;
+        entry.spilled = true;
+      }
+
+      console.log(`💾 Asset store at ${(this.memoryBytes / 1024 / 1024).toFixed(1)}MB in memory after spilling`);
+    } finally {
+      this.isSpilling = false;
+    }
+  }
+}
+
+// Export singleton instance for easy use
+export const assetStore = AssetStore.getInstance();
+
+/**
+ * Turn an image reference into something an <img> or Image can load:
+ * asset IDs become object URLs, any other URL passes through unchanged
+ */
+export const resolveAssetUrl = (src: string): string => {
+  return isAssetId(src) ? assetStore.getUrl(src) : src;
+};
@@ -0,0 +1,131 @@
+/**
+ * Background removal engines for the commercial editing workflow
+ * The remove-backgrounds function returns a finished cutout; the Gemini engine returns a segmentation mask guided by the
+ * product type and features, which is cleaned up and applied to the original on the client;
+ * chroma key runs entirely on the client for shots on a plain backdrop
+ */
+import { supabase } from "@/integrations/supabase/client";
+import { applyMaskToImage, convertBlackToTransparent } from "@/lib/canvas-utils";
+import { AssetId, assetStore } from "@/lib/asset-store";
+import { ChromaKeyOptions, DEFAULT_CHROMA_KEY, chromaKeyImage } from "@/lib/chroma-key";
+
+export type BackgroundRemovalEngine = 'replicate' | 'gemini-mask' | 'chroma-key';
+
+export const BACKGROUND_REMOVAL_ENGINE_LABELS: Record<BackgroundRemovalEngine, string> = {
+  'replicate': 'Replicate',
+  'gemini-mask': 'Gemini mask',
+  'chroma-key': 'Chroma key'
+};
+
+// What the Gemini prompt is built from, see ProductConfiguration
+export interface SegmentationHints {
+  productType: string;
+  features: string[];
+}
+
+export interface CutoutResult {
+  backgroundRemovedId: AssetId;
+  size: number; // bytes of the cutout PNG
+  provider?: string; // remove-backgrounds provider that made it, e.g. 'color-key' when a developer overrides Replicate
+}
+
+// Contract of the remove-backgrounds function, the same whichever provider it runs
+interface RemoveBackgroundsResponse {
+  provider: string;
+  results: Array<{
+    name: string;
+    backgroundRemovedData: string;
+    size: number;
+  }>;
+}
+
+/**
+ * Cut out the subject with the remove-backgrounds function
+ * Replicate, unless BACKGROUND_REMOVAL_PROVIDER picks another provider for local development;
+ * the provider that ran is returned so the UI never labels another provider's cutout as Replicate
+ */
+export const removeBackgroundWithProvider = async (assetId: AssetId, name: string): Promise<CutoutResult> => {
+  // Base64 only exists for the duration of the request
+  const data = await assetStore.toDataUrl(assetId);
+  const { data: result, error } = await supabase.functions.invoke<RemoveBackgroundsResponse>('remove-backgrounds', {
+    body: { images: [{ data, name }] }
+  });
+
+  if (error) throw error;
+  const processed = result?.results?.[0];
+  if (!processed?.backgroundRemovedData) {
+    throw new Error(`No cutout returned for ${name}`);
+  }
+  console.log(`✂️ Removed background of ${name} with ${result.provider}`);
+
+  return {
+    backgroundRemovedId: await assetStore.putDataUrl(processed.backgroundRemovedData),
+    size: processed.size,
+    provider: result.provider
+  };
+};
+
+/**
+ * Cut out the subject with a Gemini segmentation mask
+ * The model is asked for white-on-transparent but sometimes paints the background black, so black is cleared first
+ */
+export const removeBackgroundWithGeminiMask = async (
+  assetId: AssetId,
+  name: string,
+  hints: SegmentationHints
+): Promise<CutoutResult> => {
+  const data = await assetStore.toDataUrl(assetId);
+  const { data: result, error } = await supabase.functions.invoke('generate-masks', {
+    body: { images: [{ data, name }], productType: hints.productType, features: hints.features }
+  });
+
+  if (error) throw error;
+  const maskData = result?.results?.[0]?.maskData;
+  if (!maskData) {
+    throw new Error(result?.details || `No mask returned for ${name}`);
+  }
+
+  const mask = await convertBlackToTransparent(maskData);
+  const backgroundRemovedId = await assetStore.putDataUrl(await applyMaskToImage(assetId, mask));
+  console.log(`🎭 Applied Gemini mask to ${name}`);
+
+  return { backgroundRemovedId, size: assetStore.get(backgroundRemovedId).size };
+};
+
+/**
+ * Cut out the subject by keying out its plain backdrop on the client
+ */
+export const removeBackgroundWithChromaKey = async (
+  assetId: AssetId,
+  name: string,
+  options: ChromaKeyOptions
+): Promise<CutoutResult> => {
+  const blob = await chromaKeyImage(assetId, options);
+  console.log(`🟩 Keyed out the backdrop of ${name}`);
+  return { backgroundRemovedId: assetStore.put(blob), size: blob.size };
+};
+
+// Engine-specific inputs; each engine reads only its own
+export interface RemovalSettings {
+  hints?: SegmentationHints | null;
+  chromaKey?: ChromaKeyOptions;
+}
+
+/**
+ * Cut out one image with the chosen engine
+ */
+export const removeBackground = async (
+  engine: BackgroundRemovalEngine,
+  assetId: AssetId,
+  name: string,
+  { hints, chromaKey = DEFAULT_CHROMA_KEY }: RemovalSettings = {}
+): Promise<CutoutResult> => {
+  if (engine === 'chroma-key') {
+    return removeBackgroundWithChromaKey(assetId, name, chromaKey);
+  }
+  if (engine === 'gemini-mask') {
+    if (!hints?.productType) throw new Error('Choose a product type to use Gemini masks');
+    return removeBackgroundWithGeminiMask(assetId, name, hints);
+  }
+  return removeBackgroundWithProvider(assetId, name);
+};
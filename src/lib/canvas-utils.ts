@@ -2,12 +2,103 @@
  * Canvas utilities for AI commercial photo editing workflow
  * Handles client-side precision operations for mask correction and background removal
  */
+import { CompositionDocument, DepthOfFieldSettings, createComposition, scaleComposition } from "@/lib/composition-document";
+import {
+  CreateCanvas,
+  DrawableImage,
+  blackToTransparent,
+  drawComposition,
+  SubjectBounds,
+  getDrawableSize,
+  getPlacementRect,
+  getRenderableLayers,
+  getSubjectPlacementRect,
+  rotateSubjectBounds
+} from "@/lib/pixel-ops";
+import { PixelBatchOptions, PixelWorkerPool } from "@/lib/worker-pool";
+import { AssetId, assetStore, isAssetId, resolveAssetUrl } from "@/lib/asset-store";
+import type { ReflectionOptions } from "@/lib/reflection-utils";
+
+export type { SubjectBounds };
+export { getPlacementRect, getSubjectPlacementRect, rotateSubjectBounds };
+
+/**
+ * Main-thread canvas factory for the shared pixel operations
+ */
+export const createDomCanvas: CreateCanvas = (width, height) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  return { canvas, ctx };
+};
+
+/**
+ * Decode an asset or any image URL (data, blob or CORS-enabled remote) into an ImageBitmap for the pixel workers
+ */
+export const loadImageBitmap = async (src: string, name: string = 'image'): Promise<ImageBitmap> => {
+  try {
+    if (isAssetId(src)) {
+      return await createImageBitmap(assetStore.get(src));
+    }
+    const response = await fetch(src);
+    return await createImageBitmap(await response.blob());
+  } catch (error) {
+    console.error(`Failed to load ${name}:`, error);
+    throw new Error(`Failed to load ${name} image`);
+  }
+};
+
+/**
+ * Decode an image downscaled so its longest side is at most maxSize, for live previews
+ */
+export const loadPreviewBitmap = async (src: string, maxSize: number, name: string = 'preview'): Promise<ImageBitmap> => {
+  const full = await loadImageBitmap(src, name);
+  const scale = Math.min(1, maxSize / Math.max(full.width, full.height));
+  try {
+    return await createImageBitmap(full, {
+      resizeWidth: Math.max(1, Math.round(full.width * scale)),
+      resizeHeight: Math.max(1, Math.round(full.height * scale)),
+      resizeQuality: 'high'
+    });
+  } finally {
+    full.close();
+  }
+};
+
+/**
+ * Encode a canvas as a PNG Blob
+ */
+export const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode canvas')), 'image/png');
+  });
+};
+
+/**
+ * Read a Blob back as a data URL
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
 
 /**
  * Step 3: Client-Side Mask Correction
  * Converts black areas in AI-generated masks to transparent
  */
-export const convertBlackToTransparent = (imageDataUrl: string): Promise<string> => {
+export const convertBlackToTransparent = async (imageDataUrl: string, signal?: AbortSignal): Promise<string> => {
+  if (PixelWorkerPool.isSupported()) {
+    const image = await loadImageBitmap(imageDataUrl, 'mask');
+    const blob = await PixelWorkerPool.getInstance().run({ type: 'black-to-transparent', image }, [image], signal);
+    return blobToDataUrl(blob);
+  }
+
   return new Promise((resolve, reject) => {
     const image = new Image();
     image.onload = () => {
@@ -19,20 +110,12 @@ export const convertBlackToTransparent = (imageDataUrl: string): Promise<string>
 
       ctx.drawImage(image, 0, 0);
       const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-
-      for (let i = 0; i < data.length; i += 4) {
-        // If pixel is black or near-black, make it transparent
-        if (data[i] < 50 && data[i + 1] < 50 && data[i + 2] < 50) {
-          data[i + 3] = 0; // Set alpha channel to 0 (fully transparent)
-        }
-      }
-      
+      blackToTransparent(imageData.data);
       ctx.putImageData(imageData, 0, 0);
       resolve(canvas.toDataURL('image/png'));
     };
     image.onerror = reject;
-    image.src = imageDataUrl;
+    image.src = resolveAssetUrl(imageDataUrl);
   });
 };
 
@@ -78,8 +161,8 @@ export const applyMaskToImage = (originalImageDataUrl: string, maskImageDataUrl:
     originalImage.onerror = reject;
     maskImage.onerror = reject;
     
-    originalImage.src = originalImageDataUrl;
-    maskImage.src = maskImageDataUrl;
+    originalImage.src = resolveAssetUrl(originalImageDataUrl);
+    maskImage.src = resolveAssetUrl(maskImageDataUrl);
   });
 };
 
@@ -91,6 +174,11 @@ export interface SubjectPlacement {
   x: number; // fraction of canvas width (0-1)
   y: number; // fraction of canvas height (0-1)
   scale: number; // fraction of canvas width for subject width
+  // Applied about the subject's centre whenever it is drawn, so the stored cutouts are never re-encoded
+  rotation?: number; // degrees clockwise
+  flipX?: boolean; // mirror left to right
+  skewX?: number; // degrees of horizontal shear
+  keystone?: number; // -0.5 to 0.5, perspective correction: positive narrows the top edge, negative the bottom
 }
 
 export const positionSubjectOnCanvas = (
@@ -138,7 +226,7 @@ export const positionSubjectOnCanvas = (
     };
     
     subjectImage.onerror = reject;
-    subjectImage.src = subjectDataUrl;
+    subjectImage.src = resolveAssetUrl(subjectDataUrl);
   });
 };
 
@@ -152,7 +240,7 @@ export const getImageDimensions = (dataUrl: string): Promise<{ width: number; he
       resolve({ width: img.naturalWidth, height: img.naturalHeight });
     };
     img.onerror = reject;
-    img.src = dataUrl;
+    img.src = resolveAssetUrl(dataUrl);
   });
 };
 
@@ -174,23 +262,239 @@ export const fileToDataUrl = (file: File): Promise<string> => {
   });
 };
 
+/**
+ * Bounding box of the opaque pixels in a transparent image, in source pixels
+ * `bottom` is the lowest opaque row, i.e. where the subject touches the floor
+ */
+export const getOpaqueBounds = (
+  imageDataUrl: string,
+  alphaThreshold: number = 128
+): Promise<{ top: number; left: number; right: number; bottom: number; width: number; height: number } | null> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return reject('Could not get canvas context');
+
+      ctx.drawImage(image, 0, 0);
+      const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+      let top = height, left = width, right = -1, bottom = -1;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          if (data[(y * width + x) * 4 + 3] >= alphaThreshold) {
+            if (y < top) top = y;
+            if (y > bottom) bottom = y;
+            if (x < left) left = x;
+            if (x > right) right = x;
+          }
+        }
+      }
+
+      // Fully transparent image
+      if (bottom < 0) return resolve(null);
+
+      resolve({ top, left, right, bottom, width, height });
+    };
+    image.onerror = reject;
+    image.src = resolveAssetUrl(imageDataUrl);
+  });
+};
+
+/**
+ * Move a placement vertically so the subject's lowest opaque row sits on the backdrop floor line
+ * contactRatio is (lowest opaque row + 1) / image height, floorY is in backdrop pixels
+ */
+export const snapPlacementToFloor = (
+  placement: SubjectPlacement,
+  imageWidth: number,
+  imageHeight: number,
+  contactRatio: number,
+  backdropWidth: number,
+  backdropHeight: number,
+  floorY: number
+): SubjectPlacement => {
+  const rect = getPlacementRect(backdropWidth, backdropHeight, imageWidth, imageHeight, placement);
+  const dy = floorY - contactRatio * rect.height;
+  return { ...placement, y: (dy + rect.height / 2) / backdropHeight };
+};
+
+// Centre and rule-of-thirds lines, as 0-1 fractions of the backdrop width or height
+export const PLACEMENT_GUIDES = [1 / 3, 0.5, 2 / 3];
+
+/**
+ * Snap a 0-1 position to the nearest guide within threshold
+ * Returns the guide it snapped to, or null when none was close enough
+ */
+export const snapToGuide = (
+  value: number,
+  guides: number[],
+  threshold: number
+): { value: number; guide: number | null } => {
+  let nearest: number | null = null;
+  guides.forEach(guide => {
+    if (Math.abs(guide - value) <= threshold && (nearest === null || Math.abs(guide - value) < Math.abs(nearest - value))) {
+      nearest = guide;
+    }
+  });
+  return { value: nearest ?? value, guide: nearest };
+};
+
+export interface PhysicalDimensions {
+  widthCm?: number | null;
+  heightCm?: number | null;
+}
+
+/**
+ * Placement scale that renders a subject at its real-world size on a calibrated backdrop
+ * widthRatio/heightRatio are the opaque extents of the subject as a fraction of its image size,
+ * so transparent padding around the product doesn't count towards its size.
+ * Width wins when both dimensions are given; returns null when neither is usable.
+ */
+export const scaleForPhysicalSize = (
+  dimensions: PhysicalDimensions,
+  pixelsPerCm: number,
+  imageWidth: number,
+  imageHeight: number,
+  widthRatio: number,
+  heightRatio: number,
+  backdropWidth: number
+): number | null => {
+  if (!pixelsPerCm || pixelsPerCm <= 0 || !backdropWidth) return null;
+
+  if (dimensions.widthCm && dimensions.widthCm > 0 && widthRatio > 0) {
+    return (dimensions.widthCm * pixelsPerCm) / (backdropWidth * widthRatio);
+  }
+
+  if (dimensions.heightCm && dimensions.heightCm > 0 && heightRatio > 0 && imageHeight > 0) {
+    // Placed height is scale * backdropWidth * (imageHeight / imageWidth)
+    return (dimensions.heightCm * pixelsPerCm * imageWidth) / (backdropWidth * imageHeight * heightRatio);
+  }
+
+  return null;
+};
+
+/**
+ * Load an asset or URL into an image element, for main-thread fallbacks when pixel workers aren't supported
+ */
+export const loadImageElement = (src: string, name: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = (error) => {
+      console.error(`Failed to load ${name}:`, error);
+      reject(new Error(`Failed to load ${name} image`));
+    };
+    img.src = resolveAssetUrl(src);
+  });
+};
+
+/**
+ * Render a composition document to a PNG Blob
+ * Layers are drawn back to front onto a canvas sized to the backdrop, in a pixel worker when supported.
+ * Layer sources may be asset IDs or URLs.
+ */
+export const renderCompositionBlob = async (doc: CompositionDocument, signal?: AbortSignal): Promise<Blob> => {
+  const { visibleLayers, sourceLayers } = getRenderableLayers(doc);
+  console.log(`🎨 Rendering composition "${doc.name}" with ${visibleLayers.length} layers`);
+
+  if (PixelWorkerPool.isSupported()) {
+    const images: Record<string, ImageBitmap> = {};
+    try {
+      await Promise.all(sourceLayers.map(async (layer) => {
+        images[layer.id] = await loadImageBitmap(layer.src, `${layer.kind} layer`);
+      }));
+    } catch (error) {
+      Object.values(images).forEach(image => image.close());
+      throw error;
+    }
+
+    // Sources travel as bitmaps, so the src references stay on this side
+    const workerDoc = { ...doc, layers: doc.layers.map(layer => ({ ...layer, src: '' })) };
+    return PixelWorkerPool.getInstance().run(
+      { type: 'render-composition', doc: workerDoc, images },
+      Object.values(images),
+      signal
+    );
+  }
+
+  const images = new Map<string, DrawableImage>();
+  await Promise.all(sourceLayers.map(async (layer) => {
+    images.set(layer.id, await loadImageElement(layer.src, `${layer.kind} layer`));
+  }));
+
+  return canvasToBlob(drawComposition(doc, images, createDomCanvas) as HTMLCanvasElement);
+};
+
+/**
+ * Render a composition document to a PNG data URL
+ */
+export const renderComposition = async (doc: CompositionDocument, signal?: AbortSignal): Promise<string> => {
+  return blobToDataUrl(await renderCompositionBlob(doc, signal));
+};
+
+/**
+ * Render a composition for on-screen preview with the same compositor as the final image
+ * Sources are decoded downscaled to maxSize and kept in cache between renders, and pixel-sized settings
+ * are scaled to match, so the preview is the final render in miniature
+ */
+export const renderCompositionPreview = async (
+  doc: CompositionDocument,
+  outputWidth: number, // Full-size backdrop width, the width of the final render
+  maxSize: number,
+  cache: Map<string, Promise<ImageBitmap>>
+): Promise<HTMLCanvasElement> => {
+  const { backdropLayer, sourceLayers } = getRenderableLayers(doc);
+  const images = new Map<string, DrawableImage>();
+
+  await Promise.all(sourceLayers.map(async (layer) => {
+    let bitmap = cache.get(layer.src);
+    if (!bitmap) {
+      bitmap = loadPreviewBitmap(layer.src, maxSize, `${layer.kind} preview`);
+      cache.set(layer.src, bitmap);
+      // A failed load is retried on the next render instead of being cached
+      bitmap.catch(() => cache.delete(layer.src));
+    }
+    images.set(layer.id, await bitmap);
+  }));
+
+  const factor = getDrawableSize(images.get(backdropLayer.id)).width / outputWidth;
+  return drawComposition(scaleComposition(doc, factor), images, createDomCanvas) as HTMLCanvasElement;
+};
+
+/**
+ * Render a batch of compositions into the asset store, with progress reporting and cancellation
+ */
+export const renderCompositions = (docs: CompositionDocument[], options: PixelBatchOptions = {}): Promise<AssetId[]> => {
+  return PixelWorkerPool.getInstance().map(
+    docs,
+    async doc => assetStore.put(await renderCompositionBlob(doc, options.signal)),
+    options
+  );
+};
+
 /**
  * Composite backdrop, subject (with shadow), and generate reflection from clean subject
  * Layers: backdrop → reflection (generated from clean subject) → subject (with shadow)
+ * shadowGroundTint (0-1) lets the baked-in shadow take on the backdrop colour
+ * subjectBounds says where the subject sits inside a padded shadow image, so placement sizes the subject, not the padding
+ * depthOfField blurs the backdrop away from the floor line before anything is drawn over it
  */
 export const compositeLayers = async (
   backdropUrl: string,
   subjectWithShadowUrl: string,
   cleanSubjectUrl: string,
-  placement: SubjectPlacement
+  placement: SubjectPlacement,
+  reflectionOptions: Partial<ReflectionOptions> = {},
+  shadowGroundTint: number = 0,
+  subjectBounds?: SubjectBounds,
+  depthOfField: DepthOfFieldSettings | null = null
 ): Promise<string> => {
   console.log('🎨 COMPOSITING: Starting layer composition with canvas-generated reflection');
-  console.log('📊 Input validation:', {
-    backdropLength: backdropUrl?.length,
-    subjectWithShadowLength: subjectWithShadowUrl?.length,
-    cleanSubjectLength: cleanSubjectUrl?.length,
-    placement
-  });
 
   // Validate inputs
   if (!subjectWithShadowUrl?.includes('data:image/png')) {
@@ -210,168 +514,19 @@ export const compositeLayers = async (
     console.error('🚨', error);
     throw new Error(error);
   }
-  
-  console.log('✅ Input validation passed');
-
-  // Helper function to load image
-  const loadImage = (src: string, name: string): Promise<HTMLImageElement> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.crossOrigin = "anonymous";
-      
-      img.onload = () => {
-        console.log(`Successfully loaded ${name}: ${img.width}x${img.height}`);
-        resolve(img);
-      };
-      
-      img.onerror = (error) => {
-        console.error(`Failed to load ${name}:`, error);
-        reject(new Error(`Failed to load ${name} image`));
-      };
-      
-      img.src = src;
-    });
-  };
 
   try {
-    // Load backdrop, subject with shadow, and clean subject for reflection
-    console.log('Loading backdrop, subject with shadow, and clean subject...');
-    const [backdrop, subjectWithShadow, cleanSubject] = await Promise.all([
-      loadImage(backdropUrl, 'backdrop'),
-      loadImage(subjectWithShadowUrl, 'subject with shadow'),
-      loadImage(cleanSubjectUrl, 'clean subject')
-    ]);
-
-    console.log('All images loaded successfully');
-
-    // Create canvas with backdrop dimensions
-    const canvas = document.createElement('canvas');
-    canvas.width = backdrop.width;
-    canvas.height = backdrop.height;
-    const ctx = canvas.getContext('2d');
-
-    if (!ctx) {
-      throw new Error('Failed to get canvas context');
-    }
-
-    console.log('Canvas created:', `${canvas.width}x${canvas.height}`);
-
-    // Draw backdrop
-    console.log('Drawing backdrop...');
-    ctx.drawImage(backdrop, 0, 0);
-
-    // Calculate subject positioning based on placement settings
-    const subjectAspectRatio = subjectWithShadow.naturalWidth / subjectWithShadow.naturalHeight;
-    const scaledWidth = canvas.width * placement.scale;
-    const scaledHeight = scaledWidth / subjectAspectRatio;
-    const dx = (placement.x * canvas.width) - (scaledWidth / 2);
-    const dy = (placement.y * canvas.height) - (scaledHeight / 2);
-    
-    console.log('Subject positioning:', {
-      originalSize: `${subjectWithShadow.naturalWidth}x${subjectWithShadow.naturalHeight}`,
-      scaledSize: `${Math.round(scaledWidth)}x${Math.round(scaledHeight)}`,
-      position: `${Math.round(dx)}, ${Math.round(dy)}`,
-      placement
-    });
-
-    // Generate and draw reflection from clean subject (mimicking CSS .css-reflection-base)
-    console.log('🪞 Generating canvas-based reflection from clean subject...');
-    
-    ctx.save();
-    
-    // Position reflection directly below subject
-    ctx.translate(dx, dy + scaledHeight);
-    
-    // Flip vertically for reflection effect (CSS: transform: scaleY(-1))
-    ctx.scale(1, -1);
-    
-    // Calculate reflection height (CSS: max-height: 60%)
-    const reflectionHeight = scaledHeight * 0.6;
-    
-    // Draw the clean subject flipped
-    ctx.drawImage(cleanSubject, 0, 0, scaledWidth, reflectionHeight);
-    
-    // Apply fade gradient (CSS: mask-image gradient)
-    const gradient = ctx.createLinearGradient(0, 0, 0, reflectionHeight);
-    gradient.addColorStop(0, 'rgba(0, 0, 0, 0.5)');      // 50% visible at top
-    gradient.addColorStop(0.2, 'rgba(0, 0, 0, 0.35)');   // 35% visible
-    gradient.addColorStop(0.5, 'rgba(0, 0, 0, 0.15)');   // 15% visible
-    gradient.addColorStop(0.8, 'rgba(0, 0, 0, 0.05)');   // 5% visible
-    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');        // 0% visible (transparent)
-    
-    ctx.globalCompositeOperation = 'destination-in';
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, scaledWidth, reflectionHeight);
-    
-    // Apply blur (CSS: filter: blur(4px))
-    // Note: Canvas blur is applied during restore, so we capture the reflection first
-    ctx.globalCompositeOperation = 'source-over';
-    
-    ctx.restore();
-    
-    // Apply filter effects to the reflection area (CSS: brightness(1.3) contrast(1.7) saturate(1.6))
-    // We need to get the reflection area and apply pixel-level adjustments
-    const reflectionY = dy + scaledHeight;
-    const reflectionActualHeight = Math.min(reflectionHeight, canvas.height - reflectionY);
-    
-    if (reflectionActualHeight > 0) {
-      const imageData = ctx.getImageData(dx, reflectionY, scaledWidth, reflectionActualHeight);
-      const data = imageData.data;
-      
-      for (let i = 0; i < data.length; i += 4) {
-        // Apply brightness: multiply RGB by 1.3
-        let r = data[i] * 1.3;
-        let g = data[i + 1] * 1.3;
-        let b = data[i + 2] * 1.3;
-        
-        // Apply contrast: (value - 128) * 1.7 + 128
-        r = (r - 128) * 1.7 + 128;
-        g = (g - 128) * 1.7 + 128;
-        b = (b - 128) * 1.7 + 128;
-        
-        // Apply saturation using luminance-based approach
-        const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
-        r = luminance + (r - luminance) * 1.6;
-        g = luminance + (g - luminance) * 1.6;
-        b = luminance + (b - luminance) * 1.6;
-        
-        // Clamp values and apply opacity (CSS: opacity: 0.9)
-        data[i] = Math.max(0, Math.min(255, r));
-        data[i + 1] = Math.max(0, Math.min(255, g));
-        data[i + 2] = Math.max(0, Math.min(255, b));
-        data[i + 3] = data[i + 3] * 0.9; // Apply opacity
-      }
-      
-      ctx.putImageData(imageData, dx, reflectionY);
-      
-      // Apply blur to reflection using a temporary canvas
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = scaledWidth;
-      tempCanvas.height = reflectionActualHeight;
-      const tempCtx = tempCanvas.getContext('2d');
-      
-      if (tempCtx) {
-        tempCtx.putImageData(imageData, 0, 0);
-        tempCtx.filter = 'blur(4px)';
-        tempCtx.drawImage(tempCanvas, 0, 0);
-        
-        // Draw blurred reflection back to main canvas
-        ctx.drawImage(tempCanvas, dx, reflectionY);
-      }
-      
-      console.log('✅ Canvas reflection generated and applied');
-    }
-    
-    // Draw subject WITH shadow on top of reflection
-    console.log('Drawing subject with shadow...');
-    ctx.drawImage(subjectWithShadow, dx, dy, scaledWidth, scaledHeight);
-
-    // Return the final composited image as a high-quality data URL
-    const finalDataUrl = canvas.toDataURL('image/png');
-    console.log('Compositing complete, final image size:', finalDataUrl.length);
-    
-    return finalDataUrl;
-
+    return await renderComposition(createComposition({
+      name: 'composite',
+      backdrop: backdropUrl,
+      depthOfField,
+      subject: subjectWithShadowUrl,
+      reflectionSource: cleanSubjectUrl,
+      placement,
+      reflectionSettings: reflectionOptions,
+      shadowGroundTint,
+      subjectBounds
+    }));
   } catch (error) {
     console.error('Error during compositing:', error);
     throw error;
@@ -411,6 +566,6 @@ export const createPreviewImage = (dataUrl: string, maxWidth: number = 400, maxH
       resolve(canvas.toDataURL('image/png'));
     };
     img.onerror = reject;
-    img.src = dataUrl;
+    img.src = resolveAssetUrl(dataUrl);
   });
 };
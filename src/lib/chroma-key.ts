@@ -0,0 +1,43 @@
+/**
+ * Client-side background removal for studio shots on a seamless white or green sweep
+ * Keys out the backdrop colour sampled from the image border, with no paid inference
+ */
+import { canvasToBlob, createDomCanvas, loadImageBitmap, loadImageElement } from "@/lib/canvas-utils";
+import { chromaKey } from "@/lib/pixel-ops";
+import { PixelWorkerPool } from "@/lib/worker-pool";
+
+export interface ChromaKeyOptions {
+  tolerance: number; // 0-100, % of the full colour range keyed fully clear
+  softness: number; // 0-100, % of the colour range over which the matte fades back to solid
+  spill: number; // 0-1, how much of the backdrop's colour cast is removed from the subject
+  contiguous: boolean; // only key backdrop connected to the image border
+}
+
+export const DEFAULT_CHROMA_KEY: ChromaKeyOptions = {
+  tolerance: 12,
+  softness: 8,
+  spill: 0.5,
+  contiguous: true
+};
+
+/**
+ * Key out the backdrop of one image at native size, in a pixel worker when supported
+ */
+export const chromaKeyImage = async (
+  src: string,
+  options: ChromaKeyOptions,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  if (PixelWorkerPool.isSupported()) {
+    const image = await loadImageBitmap(src, "studio shot");
+    return PixelWorkerPool.getInstance().run({ type: "chroma-key", image, options }, [image], signal);
+  }
+
+  const img = await loadImageElement(src, "studio shot");
+  const { canvas, ctx } = createDomCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  chromaKey(imageData.data, canvas.width, canvas.height, options);
+  ctx.putImageData(imageData, 0, 0);
+  return canvasToBlob(canvas as HTMLCanvasElement);
+};
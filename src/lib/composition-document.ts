@@ -0,0 +1,418 @@
+/**
+ * Layered composition document for the commercial editing workflow
+ * Describes a finished shot as backdrop, reflection, shadow and subject layers
+ * so a single layer can be changed and the output rebuilt by the renderer.
+ * Set shots place several products on one backdrop, each with its own layers.
+ */
+import type { SubjectPlacement } from "@/lib/canvas-utils";
+import type { SubjectBounds } from "@/lib/pixel-ops";
+import { DEFAULT_REFLECTION_OPTIONS, ReflectionOptions } from "@/lib/reflection-utils";
+
+export const COMPOSITION_VERSION = 2;
+
+export type LayerKind = 'backdrop' | 'reflection' | 'shadow' | 'subject';
+
+interface BaseLayer {
+  id: string;
+  kind: LayerKind;
+  visible: boolean;
+}
+
+// Depth-of-field blur of the backdrop: sharp at the floor line, softening toward the far (top) edge
+export interface DepthOfFieldSettings {
+  strength: number; // 0-1, blur at the top edge as a share of the strongest the renderer applies
+}
+
+export const DEFAULT_DEPTH_OF_FIELD: DepthOfFieldSettings = { strength: 0.5 };
+
+export interface BackdropLayer extends BaseLayer {
+  kind: 'backdrop';
+  src: string; // Image URL of the backdrop, defines the output dimensions
+  floorY?: number | null; // Floor line in backdrop pixels, when known
+  depthOfField?: DepthOfFieldSettings | null; // Blurred under the products, before any other layer is drawn
+}
+
+// Version 1 reflection settings, before reflections were driven by ReflectionOptions
+interface LegacyReflectionLayerSettings {
+  heightRatio: number;
+  opacity: number;
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  blur: number;
+}
+
+export interface ReflectionLayer extends BaseLayer {
+  kind: 'reflection';
+  src: string; // Clean (shadow-free) subject the reflection is mirrored from
+  transform: SubjectPlacement;
+  settings: ReflectionOptions;
+}
+
+export interface ShadowLayer extends BaseLayer {
+  kind: 'shadow';
+  src: string; // Shadow-only image, positioned with the same transform as the subject
+  transform: SubjectPlacement;
+  opacity: number; // 0-1
+  groundTint?: number; // 0-1, blends the shadow toward multiplying the backdrop so it takes on its colour
+  subjectBounds?: SubjectBounds; // Where the subject sits in the image; the transform places that part
+  // Subject layer whose silhouette is cut out of this image, for shadows baked together with their subject,
+  // so the shadow can sit under other products while the subject is drawn in its own place in the stack
+  knockoutLayerId?: string;
+}
+
+export interface SubjectLayer extends BaseLayer {
+  kind: 'subject';
+  src: string; // Transparent subject (Cloudinary shadows arrive baked into this image)
+  transform: SubjectPlacement;
+  shadowGroundTint?: number; // 0-1, ground tint for a shadow baked into the subject image
+  subjectBounds?: SubjectBounds; // Where the bare subject sits when the image is padded for its shadow
+}
+
+export type CompositionLayer = BackdropLayer | ReflectionLayer | ShadowLayer | SubjectLayer;
+
+export interface CompositionDocument {
+  version: number;
+  name: string;
+  layers: CompositionLayer[]; // Ordered back to front
+}
+
+interface CreateCompositionParams {
+  name: string;
+  backdrop: string;
+  floorY?: number | null;
+  depthOfField?: DepthOfFieldSettings | null;
+  subject: string;
+  reflectionSource?: string; // Omit to build a composition without a reflection layer
+  shadow?: string;
+  placement: SubjectPlacement;
+  reflectionSettings?: Partial<ReflectionOptions>;
+  shadowGroundTint?: number; // Applies to the shadow layer, or the shadow baked into the subject
+  subjectBounds?: SubjectBounds; // Padding the shadow step added around the subject, shared by the shadow layer
+}
+
+/**
+ * Build a composition document from the workflow outputs of a single image
+ * Layers: backdrop → reflection → shadow → subject
+ */
+export const createComposition = ({
+  name,
+  backdrop,
+  floorY = null,
+  depthOfField = null,
+  subject,
+  reflectionSource,
+  shadow,
+  placement,
+  reflectionSettings = {},
+  shadowGroundTint = 0,
+  subjectBounds
+}: CreateCompositionParams): CompositionDocument => {
+  const layers: CompositionLayer[] = [
+    { id: 'backdrop', kind: 'backdrop', visible: true, src: backdrop, floorY, depthOfField }
+  ];
+
+  if (reflectionSource) {
+    layers.push({
+      id: 'reflection',
+      kind: 'reflection',
+      visible: true,
+      src: reflectionSource,
+      transform: { ...placement },
+      settings: { ...DEFAULT_REFLECTION_OPTIONS, ...reflectionSettings }
+    });
+  }
+
+  if (shadow) {
+    layers.push({
+      id: 'shadow',
+      kind: 'shadow',
+      visible: true,
+      src: shadow,
+      transform: { ...placement },
+      opacity: 1,
+      groundTint: shadowGroundTint,
+      subjectBounds
+    });
+  }
+
+  layers.push({
+    id: 'subject',
+    kind: 'subject',
+    visible: true,
+    src: subject,
+    transform: { ...placement },
+    // A separate shadow layer carries the tint itself
+    shadowGroundTint: shadow ? 0 : shadowGroundTint,
+    subjectBounds
+  });
+
+  return { version: COMPOSITION_VERSION, name, layers };
+};
+
+// One product of a set shot
+export interface CompositionSubject {
+  subject: string; // Transparent subject, possibly with its shadow baked in
+  cleanSubject?: string; // The bare cutout: reflection source, and lets a baked shadow be split from its subject
+  placement: SubjectPlacement;
+  shadow?: boolean; // false drops a baked shadow by drawing the clean subject instead
+  reflection?: boolean;
+  shadowGroundTint?: number;
+  subjectBounds?: SubjectBounds; // Where the bare subject sits in a subject padded for its shadow
+}
+
+interface CreateSetCompositionParams {
+  name: string;
+  backdrop: string;
+  floorY?: number | null;
+  depthOfField?: DepthOfFieldSettings | null;
+  subjects: CompositionSubject[]; // Back to front
+  reflectionSettings?: Partial<ReflectionOptions>;
+}
+
+/**
+ * Build one composition with several products on the same backdrop
+ * Floor effects go under every product: backdrop → all reflections → all shadows → subjects back to front.
+ * A baked shadow becomes a shadow layer with its subject knocked out, with the clean subject drawn on top in
+ * z-order, so a front product's shadow never darkens the product behind it.
+ */
+export const createSetComposition = ({
+  name,
+  backdrop,
+  floorY = null,
+  depthOfField = null,
+  subjects,
+  reflectionSettings = {}
+}: CreateSetCompositionParams): CompositionDocument => {
+  const reflections: ReflectionLayer[] = [];
+  const shadows: ShadowLayer[] = [];
+  const subjectLayers: SubjectLayer[] = [];
+
+  subjects.forEach((item, index) => {
+    const n = index + 1;
+    const { placement, cleanSubject, shadow = true, shadowGroundTint = 0, subjectBounds } = item;
+    const hasBakedShadow = !!cleanSubject && cleanSubject !== item.subject;
+
+    if (item.reflection !== false) {
+      reflections.push({
+        id: `reflection-${n}`,
+        kind: 'reflection',
+        visible: true,
+        src: cleanSubject || item.subject,
+        transform: { ...placement },
+        settings: { ...DEFAULT_REFLECTION_OPTIONS, ...reflectionSettings }
+      });
+    }
+
+    if (hasBakedShadow && shadow) {
+      shadows.push({
+        id: `shadow-${n}`,
+        kind: 'shadow',
+        visible: true,
+        src: item.subject,
+        transform: { ...placement },
+        opacity: 1,
+        groundTint: shadowGroundTint,
+        subjectBounds,
+        knockoutLayerId: `subject-${n}`
+      });
+    }
+
+    // Without a clean cutout any shadow stays baked into the subject and is drawn with it
+    subjectLayers.push({
+      id: `subject-${n}`,
+      kind: 'subject',
+      visible: true,
+      src: hasBakedShadow ? cleanSubject : item.subject,
+      transform: { ...placement },
+      shadowGroundTint: cleanSubject ? 0 : shadowGroundTint,
+      subjectBounds: hasBakedShadow ? undefined : subjectBounds
+    });
+  });
+
+  return {
+    version: COMPOSITION_VERSION,
+    name,
+    layers: [
+      { id: 'backdrop', kind: 'backdrop', visible: true, src: backdrop, floorY, depthOfField },
+      ...reflections,
+      ...shadows,
+      ...subjectLayers
+    ]
+  };
+};
+
+// Several products composed onto one backdrop instead of one image per product
+export interface SetShotLayout {
+  order: number[]; // Image indexes, back to front
+  subjects: Array<{ shadow: boolean; reflection: boolean }>; // Same order as the images
+}
+
+// One positioned product as it leaves the positioning step
+export interface PositionedSubject {
+  name: string;
+  subject: string; // With its shadow baked in, when it has one
+  cleanSubject?: string; // Reflection source; without it the subject itself is mirrored
+  placement: SubjectPlacement;
+  shadowGroundTint?: number;
+  subjectBounds?: SubjectBounds;
+}
+
+interface CreatePositionedCompositionsParams {
+  backdrop: string;
+  floorY?: number | null;
+  depthOfField?: DepthOfFieldSettings | null;
+  subjects: PositionedSubject[];
+  reflectionSettings?: Partial<ReflectionOptions>;
+  setShot?: SetShotLayout | null;
+  setShotName?: string;
+}
+
+/**
+ * The compositions a positioning session produces: one per product, or a single set shot
+ * The positioning preview and the final render both build their documents here, so what was approved
+ * is drawn from exactly the same parameters
+ */
+export const createPositionedCompositions = ({
+  backdrop,
+  floorY = null,
+  depthOfField = null,
+  subjects,
+  reflectionSettings,
+  setShot = null,
+  setShotName = 'set-shot.png'
+}: CreatePositionedCompositionsParams): CompositionDocument[] => {
+  if (setShot) {
+    return [createSetComposition({
+      name: setShotName,
+      backdrop,
+      floorY,
+      depthOfField,
+      subjects: setShot.order.filter(i => subjects[i]).map(i => ({
+        subject: subjects[i].subject,
+        cleanSubject: subjects[i].cleanSubject,
+        placement: subjects[i].placement,
+        shadow: setShot.subjects[i]?.shadow,
+        reflection: setShot.subjects[i]?.reflection,
+        shadowGroundTint: subjects[i].shadowGroundTint,
+        subjectBounds: subjects[i].subjectBounds
+      })),
+      reflectionSettings
+    })];
+  }
+
+  return subjects.map(item => createComposition({
+    name: item.name,
+    backdrop,
+    floorY,
+    depthOfField,
+    subject: item.subject,
+    reflectionSource: item.cleanSubject || item.subject,
+    placement: item.placement,
+    reflectionSettings,
+    shadowGroundTint: item.shadowGroundTint,
+    subjectBounds: item.subjectBounds
+  }));
+};
+
+/**
+ * Rescale a composition's pixel-sized settings for rendering at another resolution
+ * Placements are already fractions of the backdrop; the floor line and reflection blur and gap are pixels
+ */
+export const scaleComposition = (doc: CompositionDocument, factor: number): CompositionDocument => {
+  if (factor === 1) return doc;
+
+  return {
+    ...doc,
+    layers: doc.layers.map(layer => {
+      if (layer.kind === 'backdrop') {
+        return { ...layer, floorY: layer.floorY == null ? layer.floorY : layer.floorY * factor };
+      }
+      if (layer.kind === 'reflection') {
+        return { ...layer, settings: { ...layer.settings, blur: layer.settings.blur * factor, offset: layer.settings.offset * factor } };
+      }
+      return layer;
+    })
+  };
+};
+
+/**
+ * Find a layer by id
+ */
+export const getLayer = (doc: CompositionDocument, layerId: string): CompositionLayer | undefined => {
+  return doc.layers.find(layer => layer.id === layerId);
+};
+
+/**
+ * Return a new document with one layer patched, leaving every other layer untouched
+ */
+export const updateLayer = <T extends CompositionLayer>(
+  doc: CompositionDocument,
+  layerId: string,
+  patch: Partial<Omit<T, 'id' | 'kind'>>
+): CompositionDocument => {
+  if (!getLayer(doc, layerId)) {
+    throw new Error(`Composition "${doc.name}" has no layer "${layerId}"`);
+  }
+
+  return {
+    ...doc,
+    layers: doc.layers.map(layer => layer.id === layerId ? { ...layer, ...patch } as CompositionLayer : layer)
+  };
+};
+
+/**
+ * Move every placed layer (reflection, shadow, subject) to a new placement
+ */
+export const setCompositionPlacement = (
+  doc: CompositionDocument,
+  placement: SubjectPlacement
+): CompositionDocument => {
+  return {
+    ...doc,
+    layers: doc.layers.map(layer => layer.kind === 'backdrop' ? layer : { ...layer, transform: { ...placement } })
+  };
+};
+
+/**
+ * Serialise a composition document for storage
+ */
+export const serializeComposition = (doc: CompositionDocument): string => {
+  return JSON.stringify(doc);
+};
+
+/**
+ * Version 1 reflections faded from half opacity with a fixed gradient; map them onto ReflectionOptions
+ */
+const upgradeReflectionSettings = (settings: LegacyReflectionLayerSettings): ReflectionOptions => ({
+  ...DEFAULT_REFLECTION_OPTIONS,
+  intensity: settings.opacity * 0.5,
+  height: settings.heightRatio,
+  blur: settings.blur,
+  brightness: settings.brightness,
+  contrast: settings.contrast,
+  saturation: settings.saturation
+});
+
+/**
+ * Parse a stored composition document, upgrading version 1 and rejecting unknown versions
+ */
+export const parseComposition = (json: string): CompositionDocument => {
+  const doc = JSON.parse(json) as CompositionDocument;
+
+  if (!Array.isArray(doc?.layers) || (doc.version !== 1 && doc.version !== COMPOSITION_VERSION)) {
+    throw new Error(`Unsupported composition document version: ${doc?.version}`);
+  }
+
+  if (doc.version === 1) {
+    return {
+      ...doc,
+      version: COMPOSITION_VERSION,
+      layers: doc.layers.map(layer => layer.kind === 'reflection'
+        ? { ...layer, settings: upgradeReflectionSettings(layer.settings as unknown as LegacyReflectionLayerSettings) }
+        : layer)
+    };
+  }
+
+  return doc;
+};
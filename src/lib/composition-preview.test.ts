@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { createCanvas } from "@napi-rs/canvas";
+import { assetStore } from "@/lib/asset-store";
+import { canvasToBlob, createDomCanvas, loadImageBitmap, renderCompositionPreview } from "@/lib/canvas-utils";
+import { CompositionDocument, createPositionedCompositions } from "@/lib/composition-document";
+import { DrawableImage, drawComposition, getRenderableLayers } from "@/lib/pixel-ops";
+
+const BACKDROP = { width: 1200, height: 800 };
+const FLOOR_Y = 600;
+const PREVIEW_MAX_SIZE = 800;
+
+// Resampling differences between a small render and a downscaled large one stay well below these
+const MAX_MEAN_DIFF = 0.75;
+const MAX_VISIBLE_SHARE = 0.005;
+
+// Drawing helpers for the synthetic test images
+const drawProduct = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number) => {
+  ctx.fillStyle = '#2a6fdb';
+  ctx.fillRect(x, y + height * 0.2, width, height * 0.8);
+  ctx.fillStyle = '#f2c14e';
+  ctx.beginPath();
+  ctx.arc(x + width / 2, y + height * 0.2, width * 0.35, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+const putCanvas = async (draw: (ctx: CanvasRenderingContext2D) => void, width: number, height: number) => {
+  const { canvas, ctx } = createDomCanvas(width, height);
+  draw(ctx as CanvasRenderingContext2D);
+  return assetStore.put(await canvasToBlob(canvas as HTMLCanvasElement));
+};
+
+// A textured studio backdrop, a product, and the same product padded with a baked-in soft shadow
+const createTestAssets = async () => {
+  const backdrop = await putCanvas(ctx => {
+    const gradient = ctx.createLinearGradient(0, 0, 0, BACKDROP.height);
+    gradient.addColorStop(0, '#d8d4cc');
+    gradient.addColorStop(1, '#a89f92');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, BACKDROP.width, BACKDROP.height);
+    ctx.fillStyle = 'rgba(60, 50, 40, 0.35)';
+    for (let x = 0; x < BACKDROP.width; x += 60) ctx.fillRect(x, 0, 20, FLOOR_Y);
+  }, BACKDROP.width, BACKDROP.height);
+
+  const clean = await putCanvas(ctx => drawProduct(ctx, 0, 0, 300, 450), 300, 450);
+
+  const shadowed = await putCanvas(ctx => {
+    ctx.filter = 'blur(12px)';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.beginPath();
+    ctx.ellipse(225, 520, 170, 30, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.filter = 'none';
+    drawProduct(ctx, 75, 75, 300, 450);
+  }, 450, 600);
+
+  return { backdrop, clean, shadowed };
+};
+
+const createTestDocument = (
+  { backdrop, clean, shadowed }: Awaited<ReturnType<typeof createTestAssets>>,
+  reflectionIntensity: number = 0.4
+): CompositionDocument => createPositionedCompositions({
+  backdrop,
+  floorY: FLOOR_Y,
+  depthOfField: { strength: 0.6 },
+  subjects: [{
+    name: 'product.png',
+    subject: shadowed,
+    cleanSubject: clean,
+    placement: { x: 0.45, y: 0.5, scale: 0.25, rotation: 6, skewX: 4, keystone: 0.1 },
+    shadowGroundTint: 0.5,
+    subjectBounds: { x: 75 / 450, y: 75 / 600, width: 300 / 450, height: 450 / 600 }
+  }],
+  reflectionSettings: { intensity: reflectionIntensity, blur: 6, offset: 4 }
+})[0];
+
+// The final render at full size, the path renderCompositionBlob takes with full-resolution sources
+const renderFullSize = async (doc: CompositionDocument) => {
+  const images = new Map<string, DrawableImage>();
+  await Promise.all(getRenderableLayers(doc).sourceLayers.map(async layer => {
+    images.set(layer.id, await loadImageBitmap(layer.src, layer.id));
+  }));
+  return drawComposition(doc, images, createDomCanvas) as unknown as HTMLCanvasElement;
+};
+
+/**
+ * Mean absolute difference per channel (0-255), and the share of pixels off by more than a visible step
+ */
+const comparePixels = (a: Uint8ClampedArray, b: Uint8ClampedArray) => {
+  let total = 0;
+  let visible = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    let worst = 0;
+    for (let c = 0; c < 4; c++) {
+      const diff = Math.abs(a[i + c] - b[i + c]);
+      total += diff;
+      worst = Math.max(worst, diff);
+    }
+    if (worst > 24) visible++;
+  }
+  const pixels = a.length / 4;
+  return { meanDiff: total / a.length, visibleShare: visible / pixels };
+};
+
+const compareWithFinalRender = async (previewDoc: CompositionDocument, finalDoc: CompositionDocument) => {
+  const preview = await renderCompositionPreview(previewDoc, BACKDROP.width, PREVIEW_MAX_SIZE, new Map());
+  const final = await renderFullSize(finalDoc);
+
+  // Bring the final render down to the preview's size, as the preview stands in for it on screen
+  const downscaled = createCanvas(preview.width, preview.height);
+  const ctx = downscaled.getContext('2d');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(final as never, 0, 0, preview.width, preview.height);
+
+  return comparePixels(
+    preview.getContext('2d').getImageData(0, 0, preview.width, preview.height).data,
+    ctx.getImageData(0, 0, preview.width, preview.height).data
+  );
+};
+
+describe('positioning preview', () => {
+  it('renders at the preview size, keeping the backdrop aspect ratio', async () => {
+    const doc = createTestDocument(await createTestAssets());
+    const preview = await renderCompositionPreview(doc, BACKDROP.width, PREVIEW_MAX_SIZE, new Map());
+
+    expect(preview.width).toBe(PREVIEW_MAX_SIZE);
+    expect(preview.height).toBe(Math.round(PREVIEW_MAX_SIZE * BACKDROP.height / BACKDROP.width));
+  });
+
+  it('matches the downscaled final render of the same document', async () => {
+    const doc = createTestDocument(await createTestAssets());
+    const { meanDiff, visibleShare } = await compareWithFinalRender(doc, doc);
+
+    expect(meanDiff).toBeLessThan(MAX_MEAN_DIFF);
+    expect(visibleShare).toBeLessThan(MAX_VISIBLE_SHARE);
+  });
+
+  it('tells a preview apart from a render with different parameters', async () => {
+    const assets = await createTestAssets();
+    const { meanDiff, visibleShare } = await compareWithFinalRender(
+      createTestDocument(assets, 0.4),
+      createTestDocument(assets, 1)
+    );
+
+    expect(meanDiff > MAX_MEAN_DIFF || visibleShare > MAX_VISIBLE_SHARE).toBe(true);
+  });
+});
@@ -1,4 +1,5 @@
 import { supabase } from "@/integrations/supabase/client";
+import { retryWithBackoff } from "@/lib/job-runner";
 
 // TypeScript Interfaces
 export interface ProcessingOptions {
@@ -62,47 +63,12 @@ export class ImageProcessingService {
     }
 
     // Start processing with retry logic
-    return this.retryWithBackoff(
+    return retryWithBackoff(
       () => this.performProcessing(imageUrl, operation, onProgress),
-      maxRetries,
-      retryDelayMs
+      { maxRetries, retryDelayMs, shouldRetry: error => !this.shouldNotRetry(error) }
     );
   }
 
-  /**
-   * Retry logic with exponential backoff
-   */
-  private async retryWithBackoff<T>(
-    operation: () => Promise<T>,
-    maxRetries: number,
-    initialDelay: number
-  ): Promise<T> {
-    let lastError: any;
-    
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        return await operation();
-      } catch (error) {
-        lastError = error;
-        
-        // Don't retry on certain error types
-        if (this.shouldNotRetry(error)) {
-          throw error;
-        }
-        
-        // Calculate delay with exponential backoff
-        const delay = initialDelay * Math.pow(2, attempt);
-        
-        if (attempt < maxRetries - 1) {
-          console.log(`Attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
-          await this.delay(delay);
-        }
-      }
-    }
-    
-    throw lastError;
-  }
-
   /**
    * Perform the actual image processing
    */
@@ -294,10 +260,6 @@ export class ImageProcessingService {
   /**
    * Utility methods
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   private isValidImageUrl(url: string): boolean {
     try {
       const urlObj = new URL(url);
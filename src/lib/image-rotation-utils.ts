@@ -1,8 +1,15 @@
 /**
  * Utility functions for rotating images permanently by modifying the actual image data
+ * Sources may be asset IDs or URLs; rotated images are stored as new assets
+ * Free rotation, flip and skew are placement parameters instead (see SubjectPlacement)
  */
+import { AssetId, assetStore, resolveAssetUrl } from "@/lib/asset-store";
+import { canvasToBlob, createDomCanvas, loadPreviewBitmap } from "@/lib/canvas-utils";
+import { detectTiltAngle } from "@/lib/pixel-ops";
 
-export const rotateImage = (imageDataUrl: string, degrees: 90 | -90): Promise<string> => {
+const STRAIGHTEN_SAMPLE_SIZE = 512; // px, longest side analysed for the dominant edge angle
+
+export const rotateImage = (source: string, degrees: 90 | -90): Promise<AssetId> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.onload = () => {
@@ -35,19 +42,34 @@ export const rotateImage = (imageDataUrl: string, degrees: 90 | -90): Promise<st
       ctx.drawImage(img, -img.width / 2, -img.height / 2);
       ctx.restore();
       
-      // Convert back to data URL
-      resolve(canvas.toDataURL('image/png'));
+      canvasToBlob(canvas).then(blob => resolve(assetStore.put(blob)), reject);
     };
     
     img.onerror = () => reject(new Error('Failed to load image'));
-    img.src = imageDataUrl;
+    img.src = resolveAssetUrl(source);
   });
 };
 
-export const rotateImageClockwise = (imageDataUrl: string): Promise<string> => {
-  return rotateImage(imageDataUrl, 90);
+export const rotateImageClockwise = (source: string): Promise<AssetId> => {
+  return rotateImage(source, 90);
+};
+
+export const rotateImageCounterClockwise = (source: string): Promise<AssetId> => {
+  return rotateImage(source, -90);
 };
 
-export const rotateImageCounterClockwise = (imageDataUrl: string): Promise<string> => {
-  return rotateImage(imageDataUrl, -90);
-};
\ No newline at end of file
+/**
+ * Rotation in degrees clockwise that levels a slightly tilted subject, from its dominant edge angle
+ * Analysed on a downscaled copy; pass the clean cutout so a drop shadow's edges don't vote
+ */
+export const detectStraightenAngle = async (source: string): Promise<number> => {
+  const bitmap = await loadPreviewBitmap(source, STRAIGHTEN_SAMPLE_SIZE, 'straighten source');
+  try {
+    const { ctx } = createDomCanvas(bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    const tilt = detectTiltAngle(ctx.getImageData(0, 0, bitmap.width, bitmap.height).data, bitmap.width, bitmap.height);
+    return tilt === 0 ? 0 : -tilt;
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,130 @@
+/**
+ * Shared runner for per-image AI jobs (background removal, Cloudinary shadows...)
+ * Runs a few images side by side with retries and reports each image's status as it changes;
+ * one image failing never fails the batch, and an AbortSignal cancels whatever hasn't finished
+ */
+import { createAbortError, isAbortError } from "@/lib/worker-pool";
+
+export type JobStatus = 'queued' | 'running' | 'failed' | 'done';
+
+export interface RetryOptions {
+  maxRetries?: number; // attempts in total, including the first
+  retryDelayMs?: number; // doubled after every failed attempt
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+export interface JobRunOptions extends RetryOptions {
+  concurrency?: number;
+  onStatus?: (index: number, status: JobStatus, error?: string) => void;
+}
+
+export type JobOutcome<R> =
+  | { status: 'done'; result: R }
+  | { status: 'failed'; error: string };
+
+const DEFAULT_CONCURRENCY = 3;
+const CANCELLED_MESSAGE = 'Cancelled';
+
+const waitFor = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Requests that can't be aborted keep running, but their result is dropped once the signal fires
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError());
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Retry logic with exponential backoff
+ * Cancellation is never retried and interrupts the wait between attempts
+ */
+export const retryWithBackoff = async <T>(
+  operation: () => Promise<T>,
+  { maxRetries = 3, retryDelayMs = 1000, signal, shouldRetry = () => true }: RetryOptions = {}
+): Promise<T> => {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await abortable(operation(), signal);
+    } catch (error) {
+      lastError = error;
+      if (isAbortError(error) || !shouldRetry(error)) throw error;
+
+      if (attempt < maxRetries - 1) {
+        const delay = retryDelayMs * Math.pow(2, attempt);
+        console.log(`Attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
+        await waitFor(delay, signal);
+      }
+    }
+  }
+
+  throw lastError;
+};
+
+/**
+ * Run a job per item with at most `concurrency` in flight
+ * Outcomes keep the input order; after an abort, unfinished items come back failed as "Cancelled"
+ * so a retry-failed pass picks them up again
+ */
+export const runJobs = async <T, R>(
+  items: T[],
+  job: (item: T, signal?: AbortSignal) => Promise<R>,
+  { concurrency = DEFAULT_CONCURRENCY, onStatus, ...retryOptions }: JobRunOptions = {}
+): Promise<JobOutcome<R>[]> => {
+  const { signal } = retryOptions;
+  const outcomes: JobOutcome<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const fail = (index: number, error: string) => {
+    outcomes[index] = { status: 'failed', error };
+    onStatus?.(index, 'failed', error);
+  };
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      if (signal?.aborted) {
+        fail(index, CANCELLED_MESSAGE);
+        continue;
+      }
+
+      onStatus?.(index, 'running');
+      try {
+        const result = await retryWithBackoff(() => job(items[index], signal), retryOptions);
+        outcomes[index] = { status: 'done', result };
+        onStatus?.(index, 'done');
+      } catch (error) {
+        if (isAbortError(error)) {
+          fail(index, CANCELLED_MESSAGE);
+        } else {
+          console.error(`Job ${index + 1}/${items.length} failed:`, error);
+          fail(index, error instanceof Error ? error.message : String(error));
+        }
+      }
+    }
+  };
+
+  items.forEach((_, index) => onStatus?.(index, 'queued'));
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, runNext));
+  return outcomes;
+};
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { AssetId, assetStore } from '@/lib/asset-store';
 
 // NOTE: This file requires the project_batches and batch_images tables to exist.
 // If you see TypeScript errors, you need to run the database migration first.
@@ -7,9 +8,9 @@ import { supabase } from '@/integrations/supabase/client';
 interface SaveBatchParams {
   userId: string;
   batchName: string;
-  transparentImages: Array<{ name: string; data: string }>;
-  aiEnhancedImages?: Array<{ name: string; data: string }>;
-  finalImages: Array<{ name: string; data: string }>;
+  transparentImages: Array<{ name: string; assetId: AssetId }>;
+  aiEnhancedImages?: Array<{ name: string; assetId: AssetId }>;
+  finalImages: Array<{ name: string; assetId: AssetId }>;
 }
 
 export const saveBatchToLibrary = async ({
@@ -39,33 +40,18 @@ export const saveBatchToLibrary = async ({
 
     // Helper to upload image and create record
     const uploadImage = async (
-      imageData: string,
+      assetId: AssetId,
       name: string,
       type: 'transparent' | 'ai_enhanced' | 'final',
       sortOrder: number
     ) => {
-      // Convert base64 to blob
-      const base64Data = imageData.split(',')[1];
-      const byteCharacters = atob(base64Data);
-      const byteArrays = [];
-      
-      for (let offset = 0; offset < byteCharacters.length; offset += 512) {
-        const slice = byteCharacters.slice(offset, offset + 512);
-        const byteNumbers = new Array(slice.length);
-        for (let i = 0; i < slice.length; i++) {
-          byteNumbers[i] = slice.charCodeAt(i);
-        }
-        byteArrays.push(new Uint8Array(byteNumbers));
-      }
-      
-      const blob = new Blob(byteArrays, { type: 'image/png' });
+      // Assets are already binary, so they upload as-is
+      const blob = assetStore.get(assetId);
 
       // Get image dimensions
-      const dimensions = await new Promise<{ width: number; height: number }>((resolve) => {
-        const img = new Image();
-        img.onload = () => resolve({ width: img.width, height: img.height });
-        img.src = imageData;
-      });
+      const bitmap = await createImageBitmap(blob);
+      const dimensions = { width: bitmap.width, height: bitmap.height };
+      bitmap.close();
 
       // Upload to storage
       const fileName = `${Date.now()}_${name}`;
@@ -100,17 +86,17 @@ export const saveBatchToLibrary = async ({
 
     // Upload all transparent images
     for (let i = 0; i < transparentImages.length; i++) {
-      await uploadImage(transparentImages[i].data, transparentImages[i].name, 'transparent', i);
+      await uploadImage(transparentImages[i].assetId, transparentImages[i].name, 'transparent', i);
     }
 
     // Upload all AI enhanced images
     for (let i = 0; i < aiEnhancedImages.length; i++) {
-      await uploadImage(aiEnhancedImages[i].data, aiEnhancedImages[i].name, 'ai_enhanced', i + 100);
+      await uploadImage(aiEnhancedImages[i].assetId, aiEnhancedImages[i].name, 'ai_enhanced', i + 100);
     }
 
     // Upload all final images and set first as thumbnail
     for (let i = 0; i < finalImages.length; i++) {
-      const path = await uploadImage(finalImages[i].data, finalImages[i].name, 'final', i + 200);
+      const path = await uploadImage(finalImages[i].assetId, finalImages[i].name, 'final', i + 200);
       
       if (i === 0 && !thumbnailPath) {
         thumbnailPath = path;
@@ -137,7 +123,7 @@ export const saveBatchToLibrary = async ({
 
 export const loadTransparentImagesFromBatch = async (
   batchId: string
-): Promise<Array<{ name: string; data: string }> | null> => {
+): Promise<Array<{ name: string; assetId: AssetId }> | null> => {
   try {
     // Get transparent images from batch
     const { data: images, error: imagesError } = await (supabase as any)
@@ -158,17 +144,7 @@ export const loadTransparentImagesFromBatch = async (
 
         if (downloadError) throw downloadError;
 
-        // Convert blob to base64
-        return new Promise<{ name: string; data: string }>((resolve) => {
-          const reader = new FileReader();
-          reader.onloadend = () => {
-            resolve({
-              name: image.name,
-              data: reader.result as string
-            });
-          };
-          reader.readAsDataURL(blob);
-        });
+        return { name: image.name as string, assetId: assetStore.put(blob) };
       })
     );
 
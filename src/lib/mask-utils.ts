@@ -0,0 +1,89 @@
+/**
+ * Brush mask refinement for background removal results
+ * The mask is a canvas the size of the original photo whose alpha is the cutout's coverage;
+ * painting it and cutting the original again restores clipped parts and removes halos
+ */
+import { applyMaskToImage } from "@/lib/canvas-utils";
+import type { Canvas2DContext } from "@/lib/pixel-ops";
+import { AssetId, assetStore } from "@/lib/asset-store";
+
+const BRUSH_SPACING = 0.25; // distance between dabs as a fraction of the brush radius
+
+export type MaskBrushMode = 'add' | 'erase';
+
+export interface MaskBrush {
+  mode: MaskBrushMode;
+  radius: number; // image pixels
+  hardness: number; // 0-1, fraction of the radius painted at full strength
+}
+
+/**
+ * Stamp one round dab: add paints coverage back in, erase takes it away
+ */
+export const drawMaskDab = (ctx: Canvas2DContext, x: number, y: number, brush: MaskBrush) => {
+  const gradient = ctx.createRadialGradient(x, y, 0, x, y, brush.radius);
+  gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+  gradient.addColorStop(Math.min(0.99, Math.max(0, brush.hardness)), 'rgba(255, 255, 255, 1)');
+  gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+
+  ctx.save();
+  ctx.globalCompositeOperation = brush.mode === 'add' ? 'source-over' : 'destination-out';
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(x, y, brush.radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+};
+
+/**
+ * Stamp dabs from one pointer position to the next, close enough that fast strokes stay continuous
+ */
+export const drawMaskStroke = (
+  ctx: Canvas2DContext,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  brush: MaskBrush
+) => {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const steps = Math.max(1, Math.ceil(distance / Math.max(1, brush.radius * BRUSH_SPACING)));
+
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    drawMaskDab(ctx, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, brush);
+  }
+};
+
+/**
+ * Copy just the alpha channel of a mask, a quarter of the memory of a full ImageData for undo history
+ */
+export const readMaskAlpha = (ctx: Canvas2DContext, width: number, height: number): Uint8ClampedArray => {
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const alpha = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < alpha.length; i++) {
+    alpha[i] = data[i * 4 + 3];
+  }
+  return alpha;
+};
+
+/**
+ * Restore a mask from an alpha snapshot taken with readMaskAlpha
+ */
+export const writeMaskAlpha = (ctx: Canvas2DContext, alpha: Uint8ClampedArray, width: number, height: number) => {
+  const imageData = ctx.createImageData(width, height);
+  for (let i = 0; i < alpha.length; i++) {
+    imageData.data[i * 4] = 255;
+    imageData.data[i * 4 + 1] = 255;
+    imageData.data[i * 4 + 2] = 255;
+    imageData.data[i * 4 + 3] = alpha[i];
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Cut the original photo with an edited mask and store the new cutout
+ */
+export const applyMaskCanvas = async (originalId: AssetId, mask: HTMLCanvasElement): Promise<AssetId> => {
+  console.log(`🖌️ Applying refined ${mask.width}x${mask.height} mask`);
+  const cutout = await applyMaskToImage(originalId, mask.toDataURL('image/png'));
+  return assetStore.putDataUrl(cutout);
+};
@@ -0,0 +1,1205 @@
+/**
+ * Worker-safe pixel operations for the commercial editing workflow
+ * Everything here draws onto a caller-supplied 2D context, so the same code runs
+ * on the main thread (HTMLCanvasElement) and inside the pixel worker (OffscreenCanvas)
+ */
+import type { SubjectPlacement } from "@/lib/canvas-utils";
+import type {
+  BackdropLayer,
+  CompositionDocument,
+  CompositionLayer,
+  DepthOfFieldSettings,
+  ReflectionLayer,
+  ShadowLayer,
+  SubjectLayer
+} from "@/lib/composition-document";
+import type { ReflectionOptions } from "@/lib/reflection-utils";
+import type { ShadowOptions } from "@/lib/shadow-utils";
+import type { EdgeRefinementOptions } from "@/lib/edge-utils";
+import type { ChromaKeyOptions } from "@/lib/chroma-key";
+
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+export type DrawableImage = HTMLImageElement | ImageBitmap | HTMLCanvasElement | OffscreenCanvas;
+export type CreateCanvas = (width: number, height: number) => {
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  ctx: Canvas2DContext;
+};
+
+export interface ReflectionStrip {
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  // Where the strip's top-left corner sits relative to the subject's bottom-left corner, in output pixels
+  offsetX: number;
+  offsetY: number;
+}
+
+// Faded reflection before tone and blur; top is where it starts relative to the subject's bottom edge
+interface MirroredLayer {
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  ctx: Canvas2DContext;
+  top: number;
+}
+
+const FADE_STOPS = 10;
+
+const MIN_SHADOW_ELEVATION = 5; // degrees; lower lights would cast endless shadows
+const MAX_SHADOW_LENGTH = 4; // cast shadow length as a multiple of subject height
+const FLOOR_FORESHORTENING = 0.35; // the floor is seen at an angle, so depth reads shorter than width
+const CONTACT_SQUASH = 0.04; // contact shadow band height as a fraction of subject height
+const BAKED_SHADOW_MAX_ALPHA = 250; // in subjects with a baked-in shadow, anything more opaque is the product itself
+const SOLID_EDGE_ALPHA = 250; // cutout pixels at least this opaque are trusted to carry the subject's own colour
+const DEFRINGE_BAND = 2; // px around the matte edge whose colour defringe may replace
+const DEFRINGE_REACH = 4; // px of solid subject sampled for the replacement colour
+const MAX_COLOR_DISTANCE = Math.sqrt(3) * 255; // RGB distance from black to white
+const BORDER_SAMPLES = 256; // samples per image edge when estimating the backdrop colour
+const MIN_SPILL_CHROMA = 12; // keys closer to grey than this (white/grey sweeps) cast no coloured spill
+const MAX_KEYSTONE = 0.5; // the narrow edge keeps at least half the width of the wide one
+const MAX_SKEW = 45; // degrees
+const TILT_WINDOW = 3; // px box radius for softening edges and averaging the gradient structure tensor
+const TILT_BINS = 180; // half-degree orientation histogram over ±45°
+const TILT_EDGE_THRESHOLD = 0.2; // edges weaker than this share of the strongest don't vote on the tilt
+const TILT_REFINE_RANGE = 2; // degrees around the histogram peak averaged for the final angle
+const TILT_MIN_SHARE = 0.05; // the winning direction needs this share of all edge weight to count
+const DOF_MAX_BLUR = 0.02; // backdrop blur radius at full depth-of-field strength, as a share of the backdrop height
+const DOF_LEVELS = 4; // increasingly blurred copies the focal-plane gradient blends between
+const DOF_FOCUS_BAND = 0.1; // share of the backdrop height above the floor line that stays sharp
+const DOF_DEFAULT_FLOOR = 0.75; // floor line assumed for backdrops without one, as a share of the height
+
+/**
+ * Source size of a loaded image or bitmap
+ */
+export const getDrawableSize = (image: DrawableImage): { width: number; height: number } => {
+  return 'naturalWidth' in image
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+};
+
+/**
+ * Resolve where a placed layer lands on the output canvas
+ * Placement is centered on (x, y) and scaled to a fraction of the canvas width
+ */
+export const getPlacementRect = (
+  canvasWidth: number,
+  canvasHeight: number,
+  imageWidth: number,
+  imageHeight: number,
+  placement: SubjectPlacement
+): { dx: number; dy: number; width: number; height: number } => {
+  const width = canvasWidth * placement.scale;
+  const height = width / (imageWidth / imageHeight);
+  return {
+    dx: (placement.x * canvasWidth) - (width / 2),
+    dy: (placement.y * canvasHeight) - (height / 2),
+    width,
+    height
+  };
+};
+
+/**
+ * Where the bare subject sits inside an image padded around it (e.g. to make room for a shadow),
+ * as 0-1 fractions of that image's width and height
+ */
+export interface SubjectBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Resolve where a padded image lands when its placement describes the bare subject inside it,
+ * so a subject keeps the size and position it was given whatever padding its shadow added
+ * Without bounds the whole image is the subject, the same as getPlacementRect
+ */
+export const getSubjectPlacementRect = (
+  canvasWidth: number,
+  canvasHeight: number,
+  imageWidth: number,
+  imageHeight: number,
+  placement: SubjectPlacement,
+  bounds?: SubjectBounds
+): { dx: number; dy: number; width: number; height: number } => {
+  if (!bounds) return getPlacementRect(canvasWidth, canvasHeight, imageWidth, imageHeight, placement);
+
+  const subject = getPlacementRect(
+    canvasWidth,
+    canvasHeight,
+    imageWidth * bounds.width,
+    imageHeight * bounds.height,
+    placement
+  );
+  const width = subject.width / bounds.width;
+  const height = subject.height / bounds.height;
+  return {
+    dx: subject.dx - bounds.x * width,
+    dy: subject.dy - bounds.y * height,
+    width,
+    height
+  };
+};
+
+/**
+ * Whether a placement rotates, flips, skews or keystones its subject
+ */
+export const hasSubjectTransform = (placement: SubjectPlacement): boolean => {
+  return !!placement.rotation || !!placement.flipX || !!placement.skewX || !!placement.keystone;
+};
+
+/**
+ * Keystone as a homography from the unit subject box onto a centred trapezoid inside it (square-to-quad)
+ * Both edges stay horizontal, so every output row is a horizontally scaled copy of one source row
+ * and the horizontal term of the denominator is always zero
+ */
+const getKeystoneHomography = (keystone: number) => {
+  const inset = Math.min(MAX_KEYSTONE, Math.abs(keystone)) / 2;
+  // Corners in order: top-left, top-right, bottom-right, bottom-left
+  const [x0, x1, x2, x3] = keystone > 0 ? [inset, 1 - inset, 1, 0] : [0, 1, 1 - inset, inset];
+  const [y0, y1, y2, y3] = [0, 0, 1, 1];
+
+  const dx1 = x1 - x2, dx2 = x3 - x2, dx3 = x0 - x1 + x2 - x3;
+  const dy1 = y1 - y2, dy2 = y3 - y2, dy3 = y0 - y1 + y2 - y3;
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = (dx3 * dy2 - dx2 * dy3) / det;
+  const h = (dx1 * dy3 - dx3 * dy1) / det;
+
+  return {
+    a: x1 - x0 + g * x1,
+    b: x3 - x0 + h * x3,
+    c: x0,
+    e: y3 - y0 + h * y3,
+    f: y0,
+    h
+  };
+};
+
+/**
+ * Keystone an image about its subject box, one source row per output row
+ */
+const drawKeystoned = (
+  image: DrawableImage,
+  keystone: number,
+  box: { x: number; y: number; width: number; height: number },
+  createCanvas: CreateCanvas
+): DrawableImage => {
+  const { width, height } = getDrawableSize(image);
+  const { a, b, c, e, f, h } = getKeystoneHomography(keystone);
+  const { canvas, ctx } = createCanvas(width, height);
+
+  for (let y = 0; y < height; y++) {
+    // Invert the homography along the subject's vertical centre line to find the source row
+    const outV = (y + 0.5 - box.y) / box.height;
+    const v = (outV - f) / (e - h * outV);
+    const w = h * v + 1;
+    const sourceY = Math.floor(box.y + v * box.height);
+    if (w <= 0 || sourceY < 0 || sourceY >= height) continue;
+
+    const left = box.x + ((a * (-box.x / box.width) + b * v + c) / w) * box.width;
+    ctx.drawImage(image, 0, sourceY, width, 1, left, y, (width * a) / w, 1);
+  }
+
+  return canvas;
+};
+
+/**
+ * Apply a placement's keystone, flip, skew and rotation to an image about its subject's centre
+ * The result is enlarged to fit; the returned bounds keep the subject's untransformed size centred
+ * where it now sits, so the placement rect and everything positioned from it stay exactly where they were.
+ * Images without a transform are returned untouched.
+ */
+export const warpSubject = (
+  image: DrawableImage,
+  placement: SubjectPlacement,
+  createCanvas: CreateCanvas,
+  bounds?: SubjectBounds
+): { image: DrawableImage; bounds?: SubjectBounds } => {
+  if (!hasSubjectTransform(placement)) return { image, bounds };
+
+  const { width, height } = getDrawableSize(image);
+  const box = bounds || { x: 0, y: 0, width: 1, height: 1 };
+  const subject = { x: box.x * width, y: box.y * height, width: box.width * width, height: box.height * height };
+  const cx = subject.x + subject.width / 2;
+  const cy = subject.y + subject.height / 2;
+  const source = placement.keystone ? drawKeystoned(image, placement.keystone, subject, createCanvas) : image;
+
+  // Flip, then shear, then rotate: R · K · F about the subject's centre
+  const angle = ((placement.rotation || 0) * Math.PI) / 180;
+  const shear = Math.tan((Math.max(-MAX_SKEW, Math.min(MAX_SKEW, placement.skewX || 0)) * Math.PI) / 180);
+  const flip = placement.flipX ? -1 : 1;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const m11 = cos * flip, m21 = sin * flip;
+  const m12 = cos * shear - sin, m22 = sin * shear + cos;
+
+  const corners = [[0, 0], [width, 0], [0, height], [width, height]].map(([x, y]) => [
+    m11 * (x - cx) + m12 * (y - cy),
+    m21 * (x - cx) + m22 * (y - cy)
+  ]);
+  const minX = Math.floor(Math.min(...corners.map(([x]) => x)));
+  const minY = Math.floor(Math.min(...corners.map(([, y]) => y)));
+  const outWidth = Math.max(1, Math.ceil(Math.max(...corners.map(([x]) => x))) - minX);
+  const outHeight = Math.max(1, Math.ceil(Math.max(...corners.map(([, y]) => y))) - minY);
+
+  const { canvas, ctx } = createCanvas(outWidth, outHeight);
+  ctx.setTransform(m11, m21, m12, m22, -minX, -minY);
+  ctx.drawImage(source, -cx, -cy);
+
+  return {
+    image: canvas,
+    bounds: {
+      x: (-minX - subject.width / 2) / outWidth,
+      y: (-minY - subject.height / 2) / outHeight,
+      width: subject.width / outWidth,
+      height: subject.height / outHeight
+    }
+  };
+};
+
+/**
+ * Estimate how far a subject is tilted off level, in degrees clockwise, from its dominant edge direction
+ * Edges are found on alpha-weighted luminance, so a cutout's silhouette counts as well as lines inside it.
+ * Gradients are averaged as a structure tensor over a small window, so pixel staircases along a tilted
+ * edge resolve to its true angle. Orientations fold onto ±45° around the nearest axis; returns 0 when
+ * no direction stands out.
+ */
+export const detectTiltAngle = (data: Uint8ClampedArray, width: number, height: number): number => {
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    const o = i * 4;
+    luminance[i] = (0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2] + 255) * (data[o + 3] / 255);
+  }
+  // A one-pixel edge ramp gives ragged gradient directions; widening it first steadies them
+  const value = boxBlurPlane(boxBlurPlane(luminance, width, height, TILT_WINDOW), width, height, TILT_WINDOW);
+
+  const xx = new Float32Array(width * height);
+  const yy = new Float32Array(width * height);
+  const xy = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = value[i - width + 1] + 2 * value[i + 1] + value[i + width + 1]
+        - value[i - width - 1] - 2 * value[i - 1] - value[i + width - 1];
+      const gy = value[i + width - 1] + 2 * value[i + width] + value[i + width + 1]
+        - value[i - width - 1] - 2 * value[i - width] - value[i - width + 1];
+      xx[i] = gx * gx;
+      yy[i] = gy * gy;
+      xy[i] = gx * gy;
+    }
+  }
+
+  const jxx = boxBlurPlane(xx, width, height, TILT_WINDOW);
+  const jyy = boxBlurPlane(yy, width, height, TILT_WINDOW);
+  const jxy = boxBlurPlane(xy, width, height, TILT_WINDOW);
+
+  // Edge energy per pixel is the tensor's dominant eigenvalue; only strong edges vote, weighted by it
+  const energy = new Float32Array(width * height);
+  let strongest = 0;
+  for (let i = 0; i < energy.length; i++) {
+    const diff = jxx[i] - jyy[i];
+    energy[i] = (jxx[i] + jyy[i] + Math.sqrt(diff * diff + 4 * jxy[i] * jxy[i])) / 2;
+    strongest = Math.max(strongest, energy[i]);
+  }
+
+  if (strongest === 0) return 0;
+
+  const bins = new Float32Array(TILT_BINS);
+  const deviations: number[] = [];
+  const weights: number[] = [];
+  const threshold = strongest * TILT_EDGE_THRESHOLD;
+  for (let i = 0; i < energy.length; i++) {
+    if (energy[i] < threshold) continue;
+    const orientation = (Math.atan2(2 * jxy[i], jxx[i] - jyy[i]) * 90) / Math.PI; // gradient direction, degrees
+    const folded = ((orientation % 90) + 90) % 90;
+    const deviation = folded >= 45 ? folded - 90 : folded;
+    bins[Math.min(TILT_BINS - 1, Math.floor(((deviation + 45) / 90) * TILT_BINS))] += energy[i];
+    deviations.push(deviation);
+    weights.push(energy[i]);
+  }
+
+  // Smooth over neighbouring bins (wrapping, since -45° and 45° are the same tilt) and take the peak
+  const weightAt = (bin: number) => bins[(bin + TILT_BINS) % TILT_BINS];
+  let peak = 0;
+  let peakWeight = 0;
+  for (let bin = 0; bin < TILT_BINS; bin++) {
+    const weight = weightAt(bin - 1) + weightAt(bin) + weightAt(bin + 1);
+    if (weight > peakWeight) {
+      peak = bin;
+      peakWeight = weight;
+    }
+  }
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0 || peakWeight / total < TILT_MIN_SHARE) return 0;
+
+  // Refine to the weighted mean of the edges near the peak, unwrapped around it
+  const coarse = ((peak + 0.5) / TILT_BINS) * 90 - 45;
+  let sum = 0;
+  let weightSum = 0;
+  deviations.forEach((deviation, i) => {
+    const offset = ((deviation - coarse + 135) % 90 + 90) % 90 - 45;
+    if (Math.abs(offset) > TILT_REFINE_RANGE) return;
+    sum += offset * weights[i];
+    weightSum += weights[i];
+  });
+  const tilt = coarse + (weightSum > 0 ? sum / weightSum : 0);
+  return ((tilt + 135) % 90 + 90) % 90 - 45;
+};
+
+/**
+ * Subject bounds of an image after a quarter turn
+ */
+export const rotateSubjectBounds = (
+  bounds: SubjectBounds,
+  direction: 'clockwise' | 'counterclockwise'
+): SubjectBounds => {
+  return direction === 'clockwise'
+    ? { x: 1 - bounds.y - bounds.height, y: bounds.x, width: bounds.height, height: bounds.width }
+    : { x: bounds.y, y: 1 - bounds.x - bounds.width, width: bounds.height, height: bounds.width };
+};
+
+/**
+ * Ground tint: blend shadow pixels from covering the backdrop toward multiplying it,
+ * so a shadow on a coloured sweep reads as a darker shade of that colour instead of grey
+ * backdrop holds the pixels the shadow will land on; pixels at or above maxShadowAlpha are left alone
+ */
+export const applyGroundTint = (
+  shadow: Uint8ClampedArray,
+  backdrop: Uint8ClampedArray,
+  tint: number,
+  maxShadowAlpha: number = 256
+) => {
+  for (let i = 0; i < shadow.length; i += 4) {
+    const alpha = shadow[i + 3];
+    if (alpha === 0 || alpha >= maxShadowAlpha) continue;
+
+    for (let c = 0; c < 3; c++) {
+      const color = shadow[i + c];
+      shadow[i + c] = color + ((color * backdrop[i + c]) / 255 - color) * tint;
+    }
+  }
+};
+
+/**
+ * Make black or near-black pixels fully transparent (AI mask correction)
+ */
+export const blackToTransparent = (data: Uint8ClampedArray, threshold: number = 50) => {
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i] < threshold && data[i + 1] < threshold && data[i + 2] < threshold) {
+      data[i + 3] = 0;
+    }
+  }
+};
+
+/**
+ * Median colour of the image border, i.e. the backdrop of a studio shot framed with space on every side
+ */
+export const sampleBorderColor = (data: Uint8ClampedArray, width: number, height: number): [number, number, number] => {
+  const samples: number[][] = [[], [], []];
+  const addSample = (x: number, y: number) => {
+    const o = (y * width + x) * 4;
+    for (let c = 0; c < 3; c++) samples[c].push(data[o + c]);
+  };
+
+  const steps = Math.min(BORDER_SAMPLES, Math.max(width, height));
+  for (let s = 0; s < steps; s++) {
+    const x = Math.floor((s / steps) * width);
+    const y = Math.floor((s / steps) * height);
+    addSample(x, 0);
+    addSample(x, height - 1);
+    addSample(0, y);
+    addSample(width - 1, y);
+  }
+
+  const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  return [median(samples[0]), median(samples[1]), median(samples[2])];
+};
+
+/**
+ * Key out a solid backdrop (seamless white, green screen...), in place on RGBA pixels
+ * The key colour is sampled from the border; pixels within tolerance go clear and the matte fades
+ * to solid over the softness range. Contiguous keying only clears backdrop connected to the border,
+ * so product areas of the backdrop colour survive. Spill suppression removes the key colour's cast
+ * from what remains. Returns the key colour used.
+ */
+export const chromaKey = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: ChromaKeyOptions
+): [number, number, number] => {
+  const key = sampleBorderColor(data, width, height);
+  const tolerance = (options.tolerance / 100) * MAX_COLOR_DISTANCE;
+  const softness = (options.softness / 100) * MAX_COLOR_DISTANCE;
+  const count = width * height;
+
+  const getCoverage = (p: number): number => {
+    const o = p * 4;
+    const distance = Math.hypot(data[o] - key[0], data[o + 1] - key[1], data[o + 2] - key[2]);
+    if (distance <= tolerance) return 0;
+    if (distance >= tolerance + softness) return 1;
+    return (distance - tolerance) / softness;
+  };
+
+  const coverage = new Float32Array(count).fill(1);
+  if (options.contiguous) {
+    // Flood fill from the border through clear pixels; the partial ones are the subject's edge
+    const visited = new Uint8Array(count);
+    const queue = new Int32Array(count);
+    let head = 0;
+    let tail = 0;
+    const visit = (x: number, y: number) => {
+      const p = y * width + x;
+      if (visited[p]) return;
+      visited[p] = 1;
+      coverage[p] = getCoverage(p);
+      if (coverage[p] === 0) queue[tail++] = p;
+    };
+
+    for (let x = 0; x < width; x++) {
+      visit(x, 0);
+      visit(x, height - 1);
+    }
+    for (let y = 0; y < height; y++) {
+      visit(0, y);
+      visit(width - 1, y);
+    }
+    while (head < tail) {
+      const p = queue[head++];
+      const x = p % width;
+      const y = (p - x) / width;
+      if (x > 0) visit(x - 1, y);
+      if (x < width - 1) visit(x + 1, y);
+      if (y > 0) visit(x, y - 1);
+      if (y < height - 1) visit(x, y + 1);
+    }
+  } else {
+    for (let p = 0; p < count; p++) coverage[p] = getCoverage(p);
+  }
+
+  // Spill runs along the key's chroma (its colour minus its grey level); removing that component
+  // from each pixel leaves its brightness alone
+  const keyMean = (key[0] + key[1] + key[2]) / 3;
+  const keyChroma = key.map(c => c - keyMean);
+  const keyChromaLength = Math.hypot(keyChroma[0], keyChroma[1], keyChroma[2]);
+  const suppressSpill = options.spill > 0 && keyChromaLength >= MIN_SPILL_CHROMA;
+
+  for (let p = 0; p < count; p++) {
+    const o = p * 4;
+    data[o + 3] = data[o + 3] * coverage[p];
+    if (!suppressSpill || data[o + 3] === 0) continue;
+
+    const mean = (data[o] + data[o + 1] + data[o + 2]) / 3;
+    let projection = 0;
+    for (let c = 0; c < 3; c++) projection += (data[o + c] - mean) * keyChroma[c];
+    projection /= keyChromaLength;
+    if (projection <= 0) continue;
+
+    for (let c = 0; c < 3; c++) {
+      data[o + c] -= (options.spill * projection * keyChroma[c]) / keyChromaLength;
+    }
+  }
+
+  return key;
+};
+
+/**
+ * Separable box blur of a single-channel plane, clamping at the edges
+ */
+const boxBlurPlane = (plane: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const r = Math.round(radius);
+  if (r < 1) return plane;
+
+  const size = r * 2 + 1;
+  const horizontal = new Float32Array(plane.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let k = -r; k <= r; k++) sum += plane[row + Math.min(width - 1, Math.max(0, k))];
+    for (let x = 0; x < width; x++) {
+      horizontal[row + x] = sum / size;
+      sum += plane[row + Math.min(width - 1, x + r + 1)] - plane[row + Math.max(0, x - r)];
+    }
+  }
+
+  const out = new Float32Array(plane.length);
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let k = -r; k <= r; k++) sum += horizontal[Math.min(height - 1, Math.max(0, k)) * width + x];
+    for (let y = 0; y < height; y++) {
+      out[y * width + x] = sum / size;
+      sum += horizontal[Math.min(height - 1, y + r + 1) * width + x] - horizontal[Math.max(0, y - r) * width + x];
+    }
+  }
+  return out;
+};
+
+/**
+ * Separable square min (erode) or max (dilate) filter of a single-channel plane
+ */
+const morphPlane = (
+  plane: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  mode: 'erode' | 'dilate'
+): Float32Array => {
+  const r = Math.round(radius);
+  if (r < 1) return plane;
+
+  const pick = mode === 'erode' ? Math.min : Math.max;
+  const horizontal = new Float32Array(plane.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let value = plane[row + x];
+      for (let k = Math.max(0, x - r); k <= Math.min(width - 1, x + r); k++) value = pick(value, plane[row + k]);
+      horizontal[row + x] = value;
+    }
+  }
+
+  const out = new Float32Array(plane.length);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      let value = horizontal[y * width + x];
+      for (let k = Math.max(0, y - r); k <= Math.min(height - 1, y + r); k++) value = pick(value, horizontal[k * width + x]);
+      out[y * width + x] = value;
+    }
+  }
+  return out;
+};
+
+/**
+ * Edge refinement for cutouts, in place on RGBA pixels
+ * Defringe pulls edge colours toward the nearby solid subject (removing the old background's tint),
+ * choke shrinks (positive) or expands (negative) the matte, and feather softens it.
+ * Pixels the matte grows into take the solid subject colour, so expanding never reveals the old background.
+ * Sizes are in full-resolution pixels; pixelScale shrinks them for downscaled previews.
+ */
+export const refineEdges = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: EdgeRefinementOptions,
+  pixelScale: number = 1
+) => {
+  if (!options.feather && !options.choke && !options.defringe) return;
+
+  const count = width * height;
+  const alpha = new Float32Array(count);
+  for (let i = 0; i < count; i++) alpha[i] = data[i * 4 + 3];
+
+  let refined = alpha;
+  const choke = Math.round(options.choke * pixelScale);
+  if (choke !== 0) refined = morphPlane(refined, width, height, Math.abs(choke), choke > 0 ? 'erode' : 'dilate');
+  if (options.feather > 0) {
+    // Two box passes approximate a gaussian
+    const radius = Math.max(1, (options.feather * pixelScale) / 2);
+    refined = boxBlurPlane(boxBlurPlane(refined, width, height, radius), width, height, radius);
+  }
+
+  // How close each pixel is to the matte edge: 0 deep inside the subject, up to 1 at the edge
+  const band = morphPlane(alpha, width, height, Math.max(1, DEFRINGE_BAND * pixelScale), 'erode');
+
+  // Average colour of the solid subject around each pixel, reaching as far as the matte can grow
+  // The edge band itself is left out, since that is where the old background bleeds in
+  const reach = Math.max(1, Math.round((DEFRINGE_REACH + Math.max(0, -options.choke) + options.feather) * pixelScale));
+  const weight = new Float32Array(count);
+  const channels = [new Float32Array(count), new Float32Array(count), new Float32Array(count)];
+  for (let i = 0; i < count; i++) {
+    if (band[i] < SOLID_EDGE_ALPHA) continue;
+    weight[i] = 1;
+    for (let c = 0; c < 3; c++) channels[c][i] = data[i * 4 + c];
+  }
+  const solidWeight = boxBlurPlane(weight, width, height, reach);
+  const solid = channels.map(channel => boxBlurPlane(channel, width, height, reach));
+
+  for (let i = 0; i < count; i++) {
+    const o = i * 4;
+    const hasSolid = solidWeight[i] > 1e-3;
+
+    if (alpha[i] === 0) {
+      // Newly covered by the grown matte
+      if (refined[i] > 0 && hasSolid) {
+        for (let c = 0; c < 3; c++) data[o + c] = solid[c][i] / solidWeight[i];
+      }
+    } else if (options.defringe > 0 && hasSolid) {
+      const mix = options.defringe * (1 - band[i] / 255);
+      if (mix > 0) {
+        for (let c = 0; c < 3; c++) data[o + c] += (solid[c][i] / solidWeight[i] - data[o + c]) * mix;
+      }
+    }
+
+    data[o + 3] = refined[i];
+  }
+};
+
+/**
+ * Apply brightness, contrast and saturation (CSS filter order) and scale alpha by intensity
+ */
+export const applyToneAdjustments = (
+  data: Uint8ClampedArray,
+  settings: Pick<ReflectionOptions, 'brightness' | 'contrast' | 'saturation' | 'intensity'>
+) => {
+  const { brightness, contrast, saturation, intensity } = settings;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] * brightness;
+    let g = data[i + 1] * brightness;
+    let b = data[i + 2] * brightness;
+
+    r = (r - 128) * contrast + 128;
+    g = (g - 128) * contrast + 128;
+    b = (b - 128) * contrast + 128;
+
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    r = luminance + (r - luminance) * saturation;
+    g = luminance + (g - luminance) * saturation;
+    b = luminance + (b - luminance) * saturation;
+
+    data[i] = Math.max(0, Math.min(255, r));
+    data[i + 1] = Math.max(0, Math.min(255, g));
+    data[i + 2] = Math.max(0, Math.min(255, b));
+    data[i + 3] = data[i + 3] * intensity;
+  }
+};
+
+/**
+ * Reflection fade: fully opaque at the contact edge (t = 0), gone at the far end (t = 1)
+ */
+const getFadeAlpha = (t: number, fadeStrength: number): number => {
+  return Math.pow(1 - t, 0.5 + fadeStrength * 1.5);
+};
+
+/**
+ * Lowest opaque row of every column (-1 for empty columns), lightly smoothed so
+ * anti-aliased mask edges don't turn into a jagged reflection seam
+ */
+export const findContactContour = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  alphaThreshold: number = 16
+): number[] => {
+  const raw: number[] = new Array(width).fill(-1);
+
+  for (let x = 0; x < width; x++) {
+    for (let y = height - 1; y >= 0; y--) {
+      if (data[(y * width + x) * 4 + 3] > alphaThreshold) {
+        raw[x] = y;
+        break;
+      }
+    }
+  }
+
+  const radius = Math.max(1, Math.round(width / 256));
+  return raw.map((y, x) => {
+    if (y < 0) return -1;
+    let sum = 0;
+    let count = 0;
+    for (let i = Math.max(0, x - radius); i <= Math.min(width - 1, x + radius); i++) {
+      if (raw[i] >= 0) {
+        sum += raw[i];
+        count++;
+      }
+    }
+    return Math.round(sum / count);
+  });
+};
+
+/**
+ * Flip mode: mirror the bottom band of the subject about its bounding-box bottom edge
+ */
+const drawFlippedLayer = (
+  image: DrawableImage,
+  opts: ReflectionOptions,
+  layerWidth: number,
+  subjectHeight: number,
+  createCanvas: CreateCanvas
+): MirroredLayer | null => {
+  const size = getDrawableSize(image);
+  const reflectionHeight = Math.round(subjectHeight * opts.height);
+
+  if (reflectionHeight <= 0) return null;
+
+  const { canvas, ctx } = createCanvas(layerWidth, reflectionHeight);
+
+  // Flip vertically so the subject's contact edge meets the top of the reflection
+  ctx.save();
+  ctx.translate(0, reflectionHeight);
+  ctx.scale(1, -1);
+  const sourceHeight = size.height * opts.height;
+  ctx.drawImage(
+    image,
+    0, size.height - sourceHeight, size.width, sourceHeight,
+    0, 0, layerWidth, reflectionHeight
+  );
+  ctx.restore();
+
+  // Fade out away from the subject
+  const gradient = ctx.createLinearGradient(0, 0, 0, reflectionHeight);
+  for (let stop = 0; stop <= FADE_STOPS; stop++) {
+    const t = stop / FADE_STOPS;
+    gradient.addColorStop(t, `rgba(0, 0, 0, ${getFadeAlpha(t, opts.fadeStrength)})`);
+  }
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, layerWidth, reflectionHeight);
+  ctx.globalCompositeOperation = 'source-over';
+
+  return { canvas, ctx, top: 0 };
+};
+
+/**
+ * Contour mode: mirror every column about its own contact point on the alpha mask,
+ * so products shot at an angle (sloped contact edge) get a plausible reflection
+ */
+const drawContourLayer = (
+  image: DrawableImage,
+  opts: ReflectionOptions,
+  layerWidth: number,
+  subjectHeight: number,
+  createCanvas: CreateCanvas
+): MirroredLayer | null => {
+  const depth = Math.round(subjectHeight * opts.height);
+
+  if (subjectHeight <= 0 || depth <= 0) return null;
+
+  // Sample the subject at output resolution so the contour is found in placed pixels
+  const { ctx: sourceCtx } = createCanvas(layerWidth, subjectHeight);
+  sourceCtx.drawImage(image, 0, 0, layerWidth, subjectHeight);
+  const source = sourceCtx.getImageData(0, 0, layerWidth, subjectHeight).data;
+  const contour = findContactContour(source, layerWidth, subjectHeight);
+
+  let highest = subjectHeight;
+  let lowest = -1;
+  contour.forEach(y => {
+    if (y < 0) return;
+    highest = Math.min(highest, y);
+    lowest = Math.max(lowest, y);
+  });
+
+  if (lowest < 0) return null;
+
+  // Layer spans from just below the highest contact point to the end of the lowest column's reflection
+  const top = highest + 1;
+  const layerHeight = lowest + 1 + depth - top;
+  const { canvas, ctx } = createCanvas(layerWidth, layerHeight);
+  const output = ctx.createImageData(layerWidth, layerHeight);
+  const fade = Array.from({ length: depth }, (_, j) => getFadeAlpha(j / depth, opts.fadeStrength));
+
+  for (let x = 0; x < layerWidth; x++) {
+    const contactY = contour[x];
+    if (contactY < 0) continue;
+
+    for (let j = 0; j < depth && contactY - j >= 0; j++) {
+      const src = ((contactY - j) * layerWidth + x) * 4;
+      const dst = ((contactY + 1 + j - top) * layerWidth + x) * 4;
+      output.data[dst] = source[src];
+      output.data[dst + 1] = source[src + 1];
+      output.data[dst + 2] = source[src + 2];
+      output.data[dst + 3] = source[src + 3] * fade[j];
+    }
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return { canvas, ctx, top: top - subjectHeight };
+};
+
+/**
+ * The reflection engine: mirror a subject placed at width x height output pixels,
+ * fade it, tone-adjust it and blur it onto its own canvas
+ * The strip carries the offset gap and a blur margin, so callers only position it below the subject.
+ * Returns null when the reflection would be empty.
+ */
+export const drawReflectionStrip = (
+  image: DrawableImage,
+  opts: ReflectionOptions,
+  width: number,
+  height: number,
+  createCanvas: CreateCanvas
+): ReflectionStrip | null => {
+  const layerWidth = Math.round(width);
+  const subjectHeight = Math.round(height);
+
+  if (layerWidth <= 0 || subjectHeight <= 0) return null;
+
+  const layer = opts.mode === 'contour'
+    ? drawContourLayer(image, opts, layerWidth, subjectHeight, createCanvas)
+    : drawFlippedLayer(image, opts, layerWidth, subjectHeight, createCanvas);
+
+  if (!layer) return null;
+
+  const imageData = layer.ctx.getImageData(0, 0, layer.canvas.width, layer.canvas.height);
+  applyToneAdjustments(imageData.data, opts);
+  layer.ctx.putImageData(imageData, 0, 0);
+
+  // Blur spreads past the strip edges, so leave room for it on every side
+  const padding = Math.ceil(opts.blur * 2);
+  const offset = Math.max(0, Math.round(opts.offset));
+  const { canvas, ctx } = createCanvas(layerWidth + padding * 2, offset + layer.canvas.height + padding * 2);
+  if (opts.blur > 0) {
+    ctx.filter = `blur(${opts.blur}px)`;
+  }
+  ctx.drawImage(layer.canvas, padding, padding + offset);
+
+  return { canvas, offsetX: -padding, offsetY: layer.top - padding };
+};
+
+// A placed layer's source after its rotation, flip, skew and keystone, with the bounds that keep it in place
+interface PlacedImage {
+  image: DrawableImage;
+  bounds?: SubjectBounds;
+  transform: SubjectPlacement;
+}
+
+/**
+ * Warp a placed layer's source by its transform; reflections mirror the whole image, so they have no bounds
+ */
+const placeLayer = (
+  image: DrawableImage,
+  layer: ReflectionLayer | ShadowLayer | SubjectLayer,
+  createCanvas: CreateCanvas
+): PlacedImage => ({
+  ...warpSubject(image, layer.transform, createCanvas, layer.kind === 'reflection' ? undefined : layer.subjectBounds),
+  transform: layer.transform
+});
+
+/**
+ * Where a placed layer lands; its placement describes the bare subject, not the padding around it
+ */
+const getSubjectLayerRect = (ctx: Canvas2DContext, placed: PlacedImage) => {
+  const size = getDrawableSize(placed.image);
+  return getSubjectPlacementRect(
+    ctx.canvas.width,
+    ctx.canvas.height,
+    size.width,
+    size.height,
+    placed.transform,
+    placed.bounds
+  );
+};
+
+/**
+ * Draw a reflection layer mirrored below the base of its placed subject
+ */
+const drawReflectionLayer = (
+  ctx: Canvas2DContext,
+  placed: PlacedImage,
+  settings: ReflectionOptions,
+  createCanvas: CreateCanvas
+) => {
+  const rect = getSubjectLayerRect(ctx, placed);
+  const strip = drawReflectionStrip(placed.image, settings, rect.width, rect.height, createCanvas);
+
+  if (!strip) return;
+
+  ctx.drawImage(strip.canvas, rect.dx + strip.offsetX, rect.dy + rect.height + strip.offsetY);
+};
+
+/**
+ * Draw a placed shadow or subject layer, ground-tinting its shadow pixels against what is already on the canvas
+ * Only the part of the layer that lands on the canvas is read back, so large backdrops stay cheap
+ */
+const drawGroundTintedLayer = (
+  ctx: Canvas2DContext,
+  placed: PlacedImage,
+  tint: number,
+  maxShadowAlpha: number,
+  createCanvas: CreateCanvas,
+  opacity: number = 1
+) => {
+  const rect = getSubjectLayerRect(ctx, placed);
+
+  const x = Math.max(0, Math.floor(rect.dx));
+  const y = Math.max(0, Math.floor(rect.dy));
+  const width = Math.min(ctx.canvas.width, Math.ceil(rect.dx + rect.width)) - x;
+  const height = Math.min(ctx.canvas.height, Math.ceil(rect.dy + rect.height)) - y;
+  if (width <= 0 || height <= 0) return;
+
+  const { canvas: layerCanvas, ctx: layerCtx } = createCanvas(width, height);
+  layerCtx.globalAlpha = opacity;
+  layerCtx.drawImage(placed.image, rect.dx - x, rect.dy - y, rect.width, rect.height);
+
+  const layerData = layerCtx.getImageData(0, 0, width, height);
+  applyGroundTint(layerData.data, ctx.getImageData(x, y, width, height).data, tint, maxShadowAlpha);
+  layerCtx.putImageData(layerData, 0, 0);
+
+  ctx.drawImage(layerCanvas, x, y);
+};
+
+/**
+ * Local shadow engine: a soft contact shadow plus a cast shadow projected onto the floor from the
+ * subject's alpha mask, with the subject drawn on top
+ * Azimuth 0 puts the light behind the subject (shadow falls toward the camera), 90 puts it to the right.
+ * Blur sizes scale with the subject, so a downscaled preview looks the same as the full-size result.
+ * The canvas grows to fit the shadow; subjectRect is where the subject landed on it.
+ */
+export const drawSubjectWithShadow = (
+  image: DrawableImage,
+  opts: ShadowOptions,
+  createCanvas: CreateCanvas
+): { canvas: HTMLCanvasElement | OffscreenCanvas; subjectRect: { x: number; y: number; width: number; height: number } } => {
+  const { width, height } = getDrawableSize(image);
+
+  // Silhouette: the subject's alpha filled with the shadow colour
+  const { canvas: mask, ctx: maskCtx } = createCanvas(width, height);
+  maskCtx.drawImage(image, 0, 0);
+  maskCtx.globalCompositeOperation = 'source-in';
+  maskCtx.fillStyle = opts.color;
+  maskCtx.fillRect(0, 0, width, height);
+  maskCtx.globalCompositeOperation = 'source-over';
+
+  // Floor line: one below the lowest opaque row
+  const contour = findContactContour(maskCtx.getImageData(0, 0, width, height).data, width, height);
+  const lowest = contour.reduce((max, y) => Math.max(max, y), -1);
+  const baseY = lowest >= 0 ? lowest + 1 : height;
+
+  // Cast shadow direction on the floor, per pixel of height above it
+  const elevation = Math.max(MIN_SHADOW_ELEVATION, Math.min(90, opts.elevation)) * Math.PI / 180;
+  const azimuth = opts.azimuth * Math.PI / 180;
+  const length = Math.min(MAX_SHADOW_LENGTH, 1 / Math.tan(elevation));
+  const dx = -Math.sin(azimuth) * length;
+  const dy = Math.cos(azimuth) * length * FLOOR_FORESHORTENING;
+
+  const softnessPx = (opts.softness / 100) * height * 0.03;
+  const spreadPx = (opts.spread / 100) * height * 0.1;
+  const contactBlur = 1 + softnessPx * 0.5 + height * 0.005;
+  const contactBand = baseY * CONTACT_SQUASH;
+
+  // Grow the canvas to hold the projected shadow plus its blur
+  const margin = Math.ceil((softnessPx + spreadPx + contactBlur) * 2);
+  const tipX = dx * baseY;
+  const tipY = baseY + dy * baseY;
+  const minX = Math.min(0, tipX) - margin;
+  const maxX = Math.max(width, width + tipX) + margin;
+  const minY = Math.min(0, tipY) - margin;
+  const maxY = Math.max(height, tipY, baseY + contactBand) + margin;
+  const ox = -minX;
+  const oy = -minY;
+  const { canvas, ctx } = createCanvas(Math.ceil(maxX - minX), Math.ceil(maxY - minY));
+
+  // Project the silhouette onto the floor: each row moves along (dx, dy) by its height above the floor line
+  const drawProjection = (target: Canvas2DContext, blur: number) => {
+    if (blur > 0) target.filter = `blur(${blur}px)`;
+    target.setTransform(1, 0, -dx, -dy, ox + dx * baseY, oy + baseY * (1 + dy));
+    target.drawImage(mask, 0, 0);
+    target.setTransform(1, 0, 0, 1, 0, 0);
+    target.filter = 'none';
+  };
+
+  if (length > 0.01) {
+    // Sharp near the contact point, spreading and lightening toward the tip
+    const sharp = createCanvas(canvas.width, canvas.height);
+    const soft = createCanvas(canvas.width, canvas.height);
+    drawProjection(sharp.ctx, softnessPx);
+    drawProjection(soft.ctx, softnessPx + spreadPx);
+
+    const fromX = ox + width / 2;
+    const fromY = oy + baseY;
+    const fadeTo = (layer: { ctx: Canvas2DContext }, start: number, end: number) => {
+      const gradient = layer.ctx.createLinearGradient(fromX, fromY, fromX + tipX, oy + tipY);
+      gradient.addColorStop(0, `rgba(0, 0, 0, ${start})`);
+      gradient.addColorStop(1, `rgba(0, 0, 0, ${end})`);
+      layer.ctx.globalCompositeOperation = 'destination-in';
+      layer.ctx.fillStyle = gradient;
+      layer.ctx.fillRect(0, 0, canvas.width, canvas.height);
+      layer.ctx.globalCompositeOperation = 'source-over';
+    };
+    fadeTo(sharp, 1, 0);
+    fadeTo(soft, 0, 0.5);
+
+    ctx.globalAlpha = opts.opacity;
+    ctx.drawImage(sharp.canvas, 0, 0);
+    ctx.drawImage(soft.canvas, 0, 0);
+  }
+
+  // Contact shadow: the silhouette squashed into a thin band centred on the floor line
+  ctx.globalAlpha = opts.opacity;
+  ctx.filter = `blur(${contactBlur}px)`;
+  ctx.setTransform(1, 0, 0, CONTACT_SQUASH, ox, oy + baseY * (1 - CONTACT_SQUASH) + contactBand / 2);
+  ctx.drawImage(mask, 0, 0);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.filter = 'none';
+  ctx.globalAlpha = 1;
+
+  ctx.drawImage(image, ox, oy);
+
+  return { canvas, subjectRect: { x: ox, y: oy, width, height } };
+};
+
+/**
+ * Subject bounds of a drawSubjectWithShadow result, for placing it by the subject rather than the padding
+ */
+export const getShadowSubjectBounds = ({ canvas, subjectRect }: ReturnType<typeof drawSubjectWithShadow>): SubjectBounds => ({
+  x: subjectRect.x / canvas.width,
+  y: subjectRect.y / canvas.height,
+  width: subjectRect.width / canvas.width,
+  height: subjectRect.height / canvas.height
+});
+
+/**
+ * Backdrop layer plus the layers that need drawing (hidden layers are skipped,
+ * the backdrop is always kept because it defines the canvas size)
+ * sourceLayers are the layers whose images must be loaded: the visible ones plus the subjects
+ * knocked out of visible shadows, which are needed even when the subject itself is hidden
+ */
+export const getRenderableLayers = (
+  doc: CompositionDocument
+): { backdropLayer: BackdropLayer; visibleLayers: CompositionLayer[]; sourceLayers: CompositionLayer[] } => {
+  const backdropLayer = doc.layers.find((layer): layer is BackdropLayer => layer.kind === 'backdrop');
+
+  if (!backdropLayer) {
+    throw new Error(`Composition "${doc.name}" has no backdrop layer`);
+  }
+
+  const visibleLayers = doc.layers.filter(layer => layer.visible || layer === backdropLayer);
+  const knockoutIds = new Set(
+    visibleLayers.flatMap(layer => layer.kind === 'shadow' && layer.knockoutLayerId ? [layer.knockoutLayerId] : [])
+  );
+
+  return {
+    backdropLayer,
+    visibleLayers,
+    sourceLayers: doc.layers.filter(layer => visibleLayers.includes(layer) || knockoutIds.has(layer.id))
+  };
+};
+
+/**
+ * Shadow image with its baked-in subject cut away, so the subject can be drawn separately at its own depth
+ * The knockout subject is placed where its own layer puts it, relative to the shadow image
+ */
+const knockOutSubject = (
+  ctx: Canvas2DContext,
+  shadow: PlacedImage,
+  knockout: PlacedImage,
+  createCanvas: CreateCanvas
+): PlacedImage => {
+  const size = getDrawableSize(shadow.image);
+  const rect = getSubjectLayerRect(ctx, shadow);
+  const subjectRect = getSubjectLayerRect(ctx, knockout);
+  const scaleX = size.width / rect.width;
+  const scaleY = size.height / rect.height;
+
+  const { canvas, ctx: shadowCtx } = createCanvas(size.width, size.height);
+  shadowCtx.drawImage(shadow.image, 0, 0);
+  shadowCtx.globalCompositeOperation = 'destination-out';
+  shadowCtx.drawImage(
+    knockout.image,
+    (subjectRect.dx - rect.dx) * scaleX,
+    (subjectRect.dy - rect.dy) * scaleY,
+    subjectRect.width * scaleX,
+    subjectRect.height * scaleY
+  );
+  return { ...shadow, image: canvas };
+};
+
+/**
+ * Draw a backdrop with depth-of-field blur: sharp from just above the floor line down, softening toward the top edge
+ * The blur grows with distance from the focal plane by fading in a few increasingly blurred copies along the height
+ */
+export const drawDepthOfFieldBackdrop = (
+  ctx: Canvas2DContext,
+  image: DrawableImage,
+  settings: DepthOfFieldSettings,
+  floorY: number | null | undefined,
+  createCanvas: CreateCanvas
+) => {
+  const { width, height } = getDrawableSize(image);
+  ctx.drawImage(image, 0, 0);
+
+  const maxBlur = Math.min(1, Math.max(0, settings.strength)) * DOF_MAX_BLUR * height;
+  const sharpFrom = (floorY ?? height * DOF_DEFAULT_FLOOR) - DOF_FOCUS_BAND * height;
+  if (maxBlur < 0.5 || sharpFrom <= 0) return;
+
+  // The backdrop stretched under itself extends its edges, so the blur doesn't pull transparency in from outside
+  const padding = Math.ceil(maxBlur * 2);
+  const { canvas: padded, ctx: paddedCtx } = createCanvas(width + padding * 2, height + padding * 2);
+  paddedCtx.drawImage(image, 0, 0, padded.width, padded.height);
+  paddedCtx.drawImage(image, padding, padding);
+
+  for (let level = 1; level <= DOF_LEVELS; level++) {
+    const { canvas: blurred, ctx: blurredCtx } = createCanvas(width, height);
+    blurredCtx.filter = `blur(${(maxBlur * level) / DOF_LEVELS}px)`;
+    blurredCtx.drawImage(padded, -padding, -padding);
+    blurredCtx.filter = 'none';
+
+    // Each copy fades in over its share of the rise from sharpFrom to the top edge and stays opaque above it
+    const mask = blurredCtx.createLinearGradient(
+      0,
+      sharpFrom * (1 - (level - 1) / DOF_LEVELS),
+      0,
+      sharpFrom * (1 - level / DOF_LEVELS)
+    );
+    mask.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    mask.addColorStop(1, 'rgba(0, 0, 0, 1)');
+    blurredCtx.globalCompositeOperation = 'destination-in';
+    blurredCtx.fillStyle = mask;
+    blurredCtx.fillRect(0, 0, width, height);
+
+    ctx.drawImage(blurred, 0, 0);
+  }
+};
+
+/**
+ * Draw a composition document back to front onto a canvas sized to its backdrop
+ * images holds the loaded source of every renderable layer, keyed by layer id
+ */
+export const drawComposition = (
+  doc: CompositionDocument,
+  images: Map<string, DrawableImage>,
+  createCanvas: CreateCanvas
+): HTMLCanvasElement | OffscreenCanvas => {
+  const { backdropLayer, visibleLayers } = getRenderableLayers(doc);
+  const backdropSize = getDrawableSize(images.get(backdropLayer.id));
+  const { canvas, ctx } = createCanvas(backdropSize.width, backdropSize.height);
+
+  for (const layer of visibleLayers) {
+    const image = images.get(layer.id);
+
+    switch (layer.kind) {
+      case 'backdrop':
+        // The backdrop defines the canvas size; a hidden backdrop leaves it transparent
+        if (!layer.visible) break;
+        if (layer.depthOfField) {
+          drawDepthOfFieldBackdrop(ctx, image, layer.depthOfField, layer.floorY, createCanvas);
+        } else {
+          ctx.drawImage(image, 0, 0);
+        }
+        break;
+      case 'reflection':
+        drawReflectionLayer(ctx, placeLayer(image, layer, createCanvas), layer.settings, createCanvas);
+        break;
+      case 'shadow': {
+        const knockoutLayer = doc.layers.find(
+          (other): other is SubjectLayer => other.kind === 'subject' && other.id === layer.knockoutLayerId
+        );
+        const knockoutImage = knockoutLayer && images.get(knockoutLayer.id);
+        const placed = placeLayer(image, layer, createCanvas);
+        const shadow = knockoutImage
+          ? knockOutSubject(ctx, placed, placeLayer(knockoutImage, knockoutLayer, createCanvas), createCanvas)
+          : placed;
+
+        if (layer.groundTint) {
+          drawGroundTintedLayer(ctx, shadow, layer.groundTint, 256, createCanvas, layer.opacity);
+          break;
+        }
+        const rect = getSubjectLayerRect(ctx, shadow);
+        ctx.save();
+        ctx.globalAlpha = layer.opacity;
+        ctx.drawImage(shadow.image, rect.dx, rect.dy, rect.width, rect.height);
+        ctx.restore();
+        break;
+      }
+      case 'subject': {
+        const placed = placeLayer(image, layer, createCanvas);
+        if (layer.shadowGroundTint) {
+          drawGroundTintedLayer(ctx, placed, layer.shadowGroundTint, BAKED_SHADOW_MAX_ALPHA, createCanvas);
+          break;
+        }
+        const rect = getSubjectLayerRect(ctx, placed);
+        ctx.drawImage(placed.image, rect.dx, rect.dy, rect.width, rect.height);
+        break;
+      }
+    }
+  }
+
+  return canvas;
+};
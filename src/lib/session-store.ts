@@ -0,0 +1,162 @@
+/**
+ * Workflow session persistence
+ * Checkpoints the commercial editing workflow and every asset it references to IndexedDB,
+ * so a refresh mid-batch doesn't throw away paid background removal and shadow results
+ */
+import { AssetId, assetStore, collectAssetIds } from "@/lib/asset-store";
+
+const DB_NAME = 'photo-polisher-sessions';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const ASSET_STORE = 'assets';
+const SESSION_KEY = 'current';
+
+export interface WorkflowSessionSummary {
+  step: string;
+  imageCount: number;
+  savedAt: number;
+}
+
+interface SessionRecord<T> extends WorkflowSessionSummary {
+  state: T;
+  assetIds: AssetId[];
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export class WorkflowSessionStore {
+  private static instance: WorkflowSessionStore;
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private persistedIds: Set<AssetId> | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  // Singleton pattern
+  static getInstance(): WorkflowSessionStore {
+    if (!WorkflowSessionStore.instance) {
+      WorkflowSessionStore.instance = new WorkflowSessionStore();
+    }
+    return WorkflowSessionStore.instance;
+  }
+
+  /**
+   * Checkpoint the workflow state; only assets not already on disk are written
+   * Saves are queued so a slow write never lands after a newer one
+   */
+  save<T>(summary: Omit<WorkflowSessionSummary, 'savedAt'>, state: T): Promise<void> {
+    const run = () => this.write(summary, state);
+    this.pending = this.pending.then(run, run);
+    return this.pending;
+  }
+
+  /**
+   * Summary of the saved session without loading its images, or null when there is none
+   */
+  async getSavedSession(): Promise<WorkflowSessionSummary | null> {
+    const db = await this.openDatabase();
+    const record = await requestToPromise<SessionRecord<unknown> | undefined>(
+      db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(SESSION_KEY)
+    );
+    if (!record) return null;
+    return { step: record.step, imageCount: record.imageCount, savedAt: record.savedAt };
+  }
+
+  /**
+   * Load the saved session's assets back into the asset store and return its state
+   */
+  async restore<T>(): Promise<T | null> {
+    const db = await this.openDatabase();
+    const record = await requestToPromise<SessionRecord<T> | undefined>(
+      db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(SESSION_KEY)
+    );
+    if (!record) return null;
+
+    const assets = db.transaction(ASSET_STORE).objectStore(ASSET_STORE);
+    const blobs = await Promise.all(record.assetIds.map(id => requestToPromise<Blob | undefined>(assets.get(id))));
+
+    const missing = record.assetIds.filter((_, index) => !blobs[index]);
+    if (missing.length > 0) {
+      throw new Error(`Saved session is missing ${missing.length} images`);
+    }
+
+    record.assetIds.forEach((id, index) => assetStore.restore(id, blobs[index]));
+    console.log(`♻️ Restored session at step "${record.step}" with ${record.assetIds.length} assets`);
+    return record.state;
+  }
+
+  /**
+   * Drop the saved session and its assets
+   */
+  discard(): Promise<void> {
+    const run = async () => {
+      const db = await this.openDatabase();
+      const tx = db.transaction([SESSION_STORE, ASSET_STORE], 'readwrite');
+      tx.objectStore(SESSION_STORE).clear();
+      tx.objectStore(ASSET_STORE).clear();
+      await this.completeTransaction(tx);
+      this.persistedIds = new Set();
+    };
+    this.pending = this.pending.then(run, run);
+    return this.pending;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+          if (!db.objectStoreNames.contains(ASSET_STORE)) db.createObjectStore(ASSET_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private completeTransaction(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  private async write<T>(summary: Omit<WorkflowSessionSummary, 'savedAt'>, state: T) {
+    const db = await this.openDatabase();
+
+    if (!this.persistedIds) {
+      const keys = await requestToPromise(db.transaction(ASSET_STORE).objectStore(ASSET_STORE).getAllKeys());
+      this.persistedIds = new Set(keys as AssetId[]);
+    }
+
+    const assetIds = Array.from(collectAssetIds(state)).filter(id => assetStore.has(id));
+    const referenced = new Set(assetIds);
+    const added = assetIds.filter(id => !this.persistedIds.has(id));
+    const removed = Array.from(this.persistedIds).filter(id => !referenced.has(id));
+
+    // Assets and the record commit together, so a saved session never points at missing images
+    const tx = db.transaction([SESSION_STORE, ASSET_STORE], 'readwrite');
+    const assets = tx.objectStore(ASSET_STORE);
+    added.forEach(id => assets.put(assetStore.get(id), id));
+    removed.forEach(id => assets.delete(id));
+
+    const record: SessionRecord<T> = { ...summary, savedAt: Date.now(), state, assetIds };
+    tx.objectStore(SESSION_STORE).put(record, SESSION_KEY);
+    await this.completeTransaction(tx);
+
+    added.forEach(id => this.persistedIds.add(id));
+    removed.forEach(id => this.persistedIds.delete(id));
+    console.log(`💾 Session checkpointed at step "${summary.step}" (${added.length} new, ${removed.length} removed assets)`);
+  }
+}
+
+// Export singleton instance for easy use
+export const sessionStore = WorkflowSessionStore.getInstance();
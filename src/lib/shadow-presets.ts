@@ -0,0 +1,92 @@
+/**
+ * Shadow presets: named shadow settings stored per user in Supabase
+ * One preset can be the user's default, applied automatically when the shadow step opens
+ */
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { ShadowParams, normalizeShadowParams } from "@/lib/shadow-utils";
+
+export interface ShadowPreset {
+  id: string;
+  name: string;
+  settings: ShadowParams;
+  isDefault: boolean;
+}
+
+interface ShadowPresetRow {
+  id: string;
+  name: string;
+  settings: Json;
+  is_default: boolean;
+}
+
+const toPreset = (row: ShadowPresetRow): ShadowPreset => ({
+  id: row.id,
+  name: row.name,
+  settings: normalizeShadowParams(row.settings as Partial<ShadowParams>),
+  isDefault: row.is_default
+});
+
+/**
+ * The signed-in user's presets, sorted by name
+ */
+export const fetchShadowPresets = async (): Promise<ShadowPreset[]> => {
+  const { data, error } = await supabase
+    .from('shadow_presets')
+    .select('id, name, settings, is_default')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []).map(toPreset);
+};
+
+/**
+ * Make a preset the default, or clear the default when id is null
+ */
+export const setDefaultShadowPreset = async (id: string | null): Promise<void> => {
+  // The old default has to go first: only one default per user is allowed
+  const { error: clearError } = await supabase
+    .from('shadow_presets')
+    .update({ is_default: false })
+    .eq('is_default', true);
+  if (clearError) throw clearError;
+
+  if (!id) return;
+
+  const { error } = await supabase
+    .from('shadow_presets')
+    .update({ is_default: true })
+    .eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Save settings under a name, overwriting the user's preset of the same name
+ */
+export const saveShadowPreset = async (name: string, settings: ShadowParams): Promise<ShadowPreset> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error("You must be logged in to save shadow presets");
+  }
+
+  const { data, error } = await supabase
+    .from('shadow_presets')
+    .upsert(
+      { user_id: user.id, name: name.trim(), settings: settings as unknown as Json },
+      { onConflict: 'user_id,name' }
+    )
+    .select('id, name, settings, is_default')
+    .single();
+
+  if (error) throw error;
+  return toPreset(data);
+};
+
+export const deleteShadowPreset = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('shadow_presets')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
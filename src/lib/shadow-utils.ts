@@ -0,0 +1,118 @@
+/**
+ * Local shadow generation for product cutouts
+ * Builds a contact shadow and a cast shadow from the subject's alpha mask in the browser,
+ * so shadows work offline and can be previewed instantly instead of round-tripping through Cloudinary
+ */
+import { canvasToBlob, createDomCanvas, loadImageBitmap, loadImageElement } from "@/lib/canvas-utils";
+import { SubjectBounds, drawSubjectWithShadow, getShadowSubjectBounds } from "@/lib/pixel-ops";
+import { PixelBatchOptions, PixelWorkerPool } from "@/lib/worker-pool";
+import { AssetId, assetStore } from "@/lib/asset-store";
+
+export interface ShadowOptions {
+  azimuth: number; // 0-360 degrees, 0 = light behind the subject (shadow toward the camera), 90 = light from the right
+  elevation: number; // 0-90 degrees, lower lights cast longer shadows
+  spread: number; // 0-100, how much the cast shadow widens and blurs toward its tip
+  opacity: number; // 0-1, darkness at the contact point
+  softness: number; // 0-100, base blur of the whole shadow (local engine only)
+  color: string; // #rrggbb shadow colour
+  groundTint: number; // 0-1, how much the shadow takes on the backdrop colour when composited
+}
+
+export const DEFAULT_SHADOW_OPTIONS: ShadowOptions = {
+  azimuth: 0,
+  elevation: 90,
+  spread: 5,
+  opacity: 0.6,
+  softness: 30,
+  color: '#000000',
+  groundTint: 0.5
+};
+
+// local renders in the browser from the alpha mask; cloudinary uses its e_dropshadow effect
+export type ShadowEngine = 'local' | 'cloudinary';
+
+/**
+ * Everything the shadow step needs to reproduce a look: saved in sessions and shadow presets
+ */
+export interface ShadowParams extends ShadowOptions {
+  engine: ShadowEngine;
+}
+
+export const DEFAULT_SHADOW_PARAMS: ShadowParams = { ...DEFAULT_SHADOW_OPTIONS, engine: 'local' };
+
+/**
+ * Fill in anything missing from stored params (sessions and presets saved before a field existed)
+ */
+export const normalizeShadowParams = (params?: Partial<ShadowParams> | null): ShadowParams => {
+  return { ...DEFAULT_SHADOW_PARAMS, ...params };
+};
+
+export const isSameShadowOptions = (a: ShadowOptions, b: ShadowOptions): boolean => {
+  return (Object.keys(DEFAULT_SHADOW_OPTIONS) as Array<keyof ShadowOptions>).every(key => a[key] === b[key]);
+};
+
+export const isSameShadowParams = (a: ShadowParams, b: ShadowParams): boolean => {
+  return a.engine === b.engine && isSameShadowOptions(a, b);
+};
+
+/**
+ * Just the shape of the shadow, without the engine that renders it
+ */
+export const getShadowOptions = ({
+  azimuth,
+  elevation,
+  spread,
+  opacity,
+  softness,
+  color,
+  groundTint
+}: ShadowOptions): ShadowOptions => {
+  return { azimuth, elevation, spread, opacity, softness, color, groundTint };
+};
+
+/**
+ * Render a subject with its shadow at native size, in a pixel worker when supported
+ * The result is larger than the subject when the cast shadow reaches past its edges;
+ * subjectBounds says where the subject sits inside it
+ */
+export const generateShadow = async (
+  src: string,
+  options: Partial<ShadowOptions> = {},
+  signal?: AbortSignal
+): Promise<{ blob: Blob; subjectBounds: SubjectBounds }> => {
+  const opts = { ...DEFAULT_SHADOW_OPTIONS, ...options };
+
+  if (PixelWorkerPool.isSupported()) {
+    const image = await loadImageBitmap(src, "subject");
+    const { blob, subjectBounds } = await PixelWorkerPool.getInstance().runWithResult(
+      { type: "shadow", image, options: opts },
+      [image],
+      signal
+    );
+    return { blob, subjectBounds };
+  }
+
+  const img = await loadImageElement(src, "subject");
+  const shadowed = drawSubjectWithShadow(img, opts, createDomCanvas);
+  return {
+    blob: await canvasToBlob(shadowed.canvas as HTMLCanvasElement),
+    subjectBounds: getShadowSubjectBounds(shadowed)
+  };
+};
+
+/**
+ * Generate shadows for multiple subjects, a few at a time, with progress and cancellation
+ * Per-image options override the batch options for that image only
+ */
+export const generateShadows = async (
+  images: Array<{ name: string; assetId: AssetId; options?: Partial<ShadowOptions> }>,
+  options: Partial<ShadowOptions> = {},
+  batchOptions: PixelBatchOptions = {}
+): Promise<Array<{ name: string; shadowedId: AssetId; subjectBounds: SubjectBounds }>> => {
+  console.log(`🌑 Generating local shadows for ${images.length} images`, options);
+
+  return PixelWorkerPool.getInstance().map(images, async (image) => {
+    const { blob, subjectBounds } = await generateShadow(image.assetId, { ...options, ...image.options }, batchOptions.signal);
+    return { name: image.name, shadowedId: assetStore.put(blob), subjectBounds };
+  }, batchOptions);
+};
@@ -0,0 +1,204 @@
+/**
+ * Worker pool for full-resolution pixel operations
+ * Keeps getImageData loops off the main thread so large batches don't freeze the UI
+ */
+import type { PixelTask, PixelTaskRequest, PixelTaskResponse, PixelTaskResult } from "@/workers/pixel-worker";
+
+export interface PixelBatchOptions {
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+interface QueuedTask {
+  id: number;
+  task: PixelTask;
+  transfer: Transferable[];
+  resolve: (result: PixelTaskResult) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Error thrown when a task is cancelled through its AbortSignal
+ */
+export const createAbortError = (): Error => new DOMException('Operation cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+const closeBitmaps = (transfer: Transferable[]) => {
+  transfer.forEach(item => {
+    if (item instanceof ImageBitmap) item.close();
+  });
+};
+
+export class PixelWorkerPool {
+  private static instance: PixelWorkerPool;
+
+  private readonly size = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private running = new Map<Worker, QueuedTask>();
+  private queue: QueuedTask[] = [];
+  private nextId = 1;
+
+  // Singleton pattern
+  static getInstance(): PixelWorkerPool {
+    if (!PixelWorkerPool.instance) {
+      PixelWorkerPool.instance = new PixelWorkerPool();
+    }
+    return PixelWorkerPool.instance;
+  }
+
+  /**
+   * Workers need OffscreenCanvas and createImageBitmap; callers fall back to the main thread otherwise
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap === 'function';
+  }
+
+  /**
+   * Number of tasks that run side by side
+   */
+  get concurrency(): number {
+    return this.size;
+  }
+
+  /**
+   * Queue a task; transferred bitmaps belong to the pool from here on
+   */
+  run(task: PixelTask, transfer: Transferable[] = [], signal?: AbortSignal): Promise<Blob> {
+    return this.runWithResult(task, transfer, signal).then(result => result.blob);
+  }
+
+  /**
+   * Like run, but also resolves the metadata some tasks report next to their image
+   */
+  runWithResult(task: PixelTask, transfer: Transferable[] = [], signal?: AbortSignal): Promise<PixelTaskResult> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        closeBitmaps(transfer);
+        return reject(createAbortError());
+      }
+
+      const queued: QueuedTask = { id: this.nextId++, task, transfer, resolve, reject, signal };
+      if (signal) {
+        queued.onAbort = () => this.cancel(queued);
+        signal.addEventListener('abort', queued.onAbort, { once: true });
+      }
+
+      this.queue.push(queued);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Run an async job per item with at most `concurrency` in flight, reporting progress as each finishes
+   * Results keep the input order; the first failure or an abort rejects the whole batch
+   */
+  async map<T, R>(
+    items: T[],
+    job: (item: T, index: number) => Promise<R>,
+    { signal, onProgress }: PixelBatchOptions = {}
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+    let completed = 0;
+
+    const runNext = async (): Promise<void> => {
+      while (nextIndex < items.length) {
+        if (signal?.aborted) throw createAbortError();
+        const index = nextIndex++;
+        results[index] = await job(items[index], index);
+        completed++;
+        onProgress?.(completed, items.length);
+      }
+    };
+
+    onProgress?.(0, items.length);
+    await Promise.all(Array.from({ length: Math.min(this.size, items.length) }, runNext));
+    return results;
+  }
+
+  private spawnWorker(): Worker {
+    const worker = new Worker(new URL('../workers/pixel-worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PixelTaskResponse>) => this.handleResponse(worker, event.data);
+    worker.onerror = (event) => {
+      console.error('🚨 Pixel worker crashed:', event.message);
+      this.failWorker(worker, new Error(event.message || 'Pixel worker crashed'));
+    };
+    this.workers.push(worker);
+    return worker;
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0 && (this.idle.length > 0 || this.workers.length < this.size)) {
+      const worker = this.idle.pop() || this.spawnWorker();
+      const queued = this.queue.shift();
+      this.running.set(worker, queued);
+      const request: PixelTaskRequest = { id: queued.id, task: queued.task };
+      worker.postMessage(request, queued.transfer);
+    }
+  }
+
+  private settle(queued: QueuedTask) {
+    if (queued.signal && queued.onAbort) {
+      queued.signal.removeEventListener('abort', queued.onAbort);
+    }
+  }
+
+  private handleResponse(worker: Worker, response: PixelTaskResponse) {
+    const queued = this.running.get(worker);
+    this.running.delete(worker);
+    this.idle.push(worker);
+
+    if (queued && queued.id === response.id) {
+      this.settle(queued);
+      if ('blob' in response) {
+        queued.resolve({ blob: response.blob, subjectBounds: response.subjectBounds });
+      } else {
+        queued.reject(new Error(response.error));
+      }
+    }
+
+    this.dispatch();
+  }
+
+  // A crashed or cancelled worker is discarded; dispatch spawns a fresh one when needed
+  private failWorker(worker: Worker, error: Error) {
+    const queued = this.running.get(worker);
+    this.running.delete(worker);
+    this.workers = this.workers.filter(w => w !== worker);
+    this.idle = this.idle.filter(w => w !== worker);
+    worker.terminate();
+
+    if (queued) {
+      this.settle(queued);
+      queued.reject(error);
+    }
+
+    this.dispatch();
+  }
+
+  private cancel(queued: QueuedTask) {
+    const queueIndex = this.queue.indexOf(queued);
+    if (queueIndex >= 0) {
+      this.queue.splice(queueIndex, 1);
+      closeBitmaps(queued.transfer);
+      this.settle(queued);
+      queued.reject(createAbortError());
+      return;
+    }
+
+    for (const [worker, task] of this.running) {
+      if (task === queued) {
+        this.failWorker(worker, createAbortError());
+        return;
+      }
+    }
+  }
+}
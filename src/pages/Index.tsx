@@ -1,23 +1,81 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Upload, Sparkles, Image as ImageIcon, Settings, LogOut, FolderOpen } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { UploadZone } from "@/components/UploadZone";
-import { CommercialEditingWorkflow } from "@/components/CommercialEditingWorkflow";
+import { CommercialEditingWorkflow, WorkflowSessionState } from "@/components/CommercialEditingWorkflow";
+import { ResumeSessionPrompt } from "@/components/ResumeSessionPrompt";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { assetStore } from "@/lib/asset-store";
+import { WorkflowSessionSummary, sessionStore } from "@/lib/session-store";
 import heroImage from "@/assets/hero-studio.jpg";
 
 const Index = () => {
   const [currentStep, setCurrentStep] = useState<'upload' | 'commercial'>('upload');
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [savedSession, setSavedSession] = useState<WorkflowSessionSummary | null>(null);
+  const [resumeState, setResumeState] = useState<WorkflowSessionState | null>(null);
+  const [isResuming, setIsResuming] = useState(false);
   const navigate = useNavigate();
   const { user, signOut, loading } = useAuth();
+  const { toast } = useToast();
+
+  // Offer to pick up a workflow that was interrupted by a refresh or closed tab
+  useEffect(() => {
+    sessionStore.getSavedSession()
+      .then(setSavedSession)
+      .catch(error => console.error('Failed to check for a saved session:', error));
+  }, []);
 
   const handleFilesUploaded = (files: File[]) => {
+    setSavedSession(null);
+    setResumeState(null);
     setUploadedFiles(files);
     setCurrentStep('commercial');
   };
 
+  const handleResumeSession = async () => {
+    setIsResuming(true);
+    try {
+      const state = await sessionStore.restore<WorkflowSessionState>();
+      if (!state) {
+        setSavedSession(null);
+        return;
+      }
+
+      // Rebuild the original uploads from their stored assets
+      const files = state.uploads.map(upload => Object.assign(
+        new File([assetStore.get(upload.assetId)], upload.name, { type: upload.type }),
+        { isPreCut: upload.isPreCut }
+      ));
+
+      setResumeState(state);
+      setUploadedFiles(files);
+      setSavedSession(null);
+      setCurrentStep('commercial');
+    } catch (error) {
+      console.error('Failed to resume session:', error);
+      toast({
+        title: "Could not resume session",
+        description: error instanceof Error ? error.message : 'The saved session could not be loaded',
+        variant: "destructive"
+      });
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
+  const handleDiscardSession = () => {
+    sessionStore.discard().catch(error => console.error('Failed to discard session:', error));
+    setSavedSession(null);
+  };
+
+  const handleWorkflowBack = () => {
+    setResumeState(null);
+    setCurrentStep('upload');
+  };
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -121,6 +179,15 @@ const Index = () => {
 
       {/* Main Content */}
       <main className="container mx-auto px-6 py-8">
+        {currentStep === 'upload' && savedSession && (
+          <ResumeSessionPrompt
+            session={savedSession}
+            isResuming={isResuming}
+            onResume={handleResumeSession}
+            onDiscard={handleDiscardSession}
+          />
+        )}
+
         {currentStep === 'upload' && (
           <UploadZone onFilesUploaded={handleFilesUploaded} />
         )}
@@ -128,7 +195,8 @@ const Index = () => {
         {currentStep === 'commercial' && uploadedFiles.length > 0 && (
           <CommercialEditingWorkflow
             files={uploadedFiles}
-            onBack={() => setCurrentStep('upload')}
+            resumeState={resumeState}
+            onBack={handleWorkflowBack}
           />
         )}
       </main>
@@ -0,0 +1,32 @@
+/**
+ * Canvas for the compositor tests: Node has no DOM, so @napi-rs/canvas (Skia) stands in for
+ * document.createElement('canvas') and createImageBitmap, the two entry points the pixel code uses
+ */
+import { Canvas, createCanvas, loadImage } from "@napi-rs/canvas";
+
+// An ImageBitmap is a decoded, drawable image; a canvas with close() behaves the same for drawImage
+type TestBitmap = Canvas & { close: () => void };
+
+const toBitmap = (canvas: Canvas): TestBitmap => Object.assign(canvas, { close: () => undefined });
+
+const createTestImageBitmap = async (
+  source: Blob | Canvas,
+  options: { resizeWidth?: number; resizeHeight?: number } = {}
+): Promise<TestBitmap> => {
+  const image = source instanceof Blob ? await loadImage(Buffer.from(await source.arrayBuffer())) : source;
+  const width = options.resizeWidth ?? image.width;
+  const height = options.resizeHeight ?? image.height;
+  const canvas = createCanvas(width, height);
+  canvas.getContext('2d').drawImage(image, 0, 0, width, height);
+  return toBitmap(canvas);
+};
+
+Object.assign(globalThis, {
+  document: {
+    createElement: (tag: string) => {
+      if (tag !== 'canvas') throw new Error(`No <${tag}> in the test environment`);
+      return createCanvas(300, 150);
+    }
+  },
+  createImageBitmap: createTestImageBitmap
+});
@@ -0,0 +1,118 @@
+/**
+ * Pixel worker: runs full-resolution canvas operations on OffscreenCanvas
+ * Receives ImageBitmaps (transferred, closed here once drawn) and replies with a PNG Blob
+ * (shadow tasks also report where the subject landed on the grown canvas)
+ */
+import type { CompositionDocument } from "@/lib/composition-document";
+import type { ReflectionOptions } from "@/lib/reflection-utils";
+import type { ShadowOptions } from "@/lib/shadow-utils";
+import type { EdgeRefinementOptions } from "@/lib/edge-utils";
+import type { ChromaKeyOptions } from "@/lib/chroma-key";
+import {
+  CreateCanvas,
+  DrawableImage,
+  SubjectBounds,
+  blackToTransparent,
+  chromaKey,
+  drawComposition,
+  drawReflectionStrip,
+  drawSubjectWithShadow,
+  getShadowSubjectBounds,
+  refineEdges
+} from "@/lib/pixel-ops";
+
+export type PixelTask =
+  | { type: 'black-to-transparent'; image: ImageBitmap }
+  | { type: 'reflection'; image: ImageBitmap; options: ReflectionOptions }
+  | { type: 'shadow'; image: ImageBitmap; options: ShadowOptions }
+  | { type: 'edge-refinement'; image: ImageBitmap; options: EdgeRefinementOptions }
+  | { type: 'chroma-key'; image: ImageBitmap; options: ChromaKeyOptions }
+  | { type: 'render-composition'; doc: CompositionDocument; images: Record<string, ImageBitmap> };
+
+export interface PixelTaskRequest {
+  id: number;
+  task: PixelTask;
+}
+
+export interface PixelTaskResult {
+  blob: Blob;
+  subjectBounds?: SubjectBounds;
+}
+
+export type PixelTaskResponse =
+  | ({ id: number } & PixelTaskResult)
+  | { id: number; error: string };
+
+const createCanvas: CreateCanvas = (width, height) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get OffscreenCanvas context');
+  return { canvas, ctx };
+};
+
+const toPngBlob = (canvas: HTMLCanvasElement | OffscreenCanvas): Promise<Blob> => {
+  return (canvas as OffscreenCanvas).convertToBlob({ type: 'image/png' });
+};
+
+const runTask = async (task: PixelTask): Promise<Blob | PixelTaskResult> => {
+  switch (task.type) {
+    case 'black-to-transparent': {
+      const { canvas, ctx } = createCanvas(task.image.width, task.image.height);
+      ctx.drawImage(task.image, 0, 0);
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      blackToTransparent(imageData.data);
+      ctx.putImageData(imageData, 0, 0);
+      return toPngBlob(canvas);
+    }
+    case 'edge-refinement': {
+      const { canvas, ctx } = createCanvas(task.image.width, task.image.height);
+      ctx.drawImage(task.image, 0, 0);
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      refineEdges(imageData.data, canvas.width, canvas.height, task.options);
+      ctx.putImageData(imageData, 0, 0);
+      return toPngBlob(canvas);
+    }
+    case 'chroma-key': {
+      const { canvas, ctx } = createCanvas(task.image.width, task.image.height);
+      ctx.drawImage(task.image, 0, 0);
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      chromaKey(imageData.data, canvas.width, canvas.height, task.options);
+      ctx.putImageData(imageData, 0, 0);
+      return toPngBlob(canvas);
+    }
+    case 'reflection': {
+      const strip = drawReflectionStrip(task.image, task.options, task.image.width, task.image.height, createCanvas);
+      if (!strip) throw new Error('Reflection height is zero');
+      return toPngBlob(strip.canvas);
+    }
+    case 'shadow': {
+      const shadowed = drawSubjectWithShadow(task.image, task.options, createCanvas);
+      return { blob: await toPngBlob(shadowed.canvas), subjectBounds: getShadowSubjectBounds(shadowed) };
+    }
+    case 'render-composition': {
+      const images = new Map<string, DrawableImage>(Object.entries(task.images));
+      return toPngBlob(drawComposition(task.doc, images, createCanvas));
+    }
+  }
+};
+
+const releaseImages = (task: PixelTask) => {
+  const bitmaps = task.type === 'render-composition' ? Object.values(task.images) : [task.image];
+  bitmaps.forEach(bitmap => bitmap.close());
+};
+
+self.onmessage = async (event: MessageEvent<PixelTaskRequest>) => {
+  const { id, task } = event.data;
+  let response: PixelTaskResponse;
+
+  try {
+    const result = await runTask(task);
+    response = result instanceof Blob ? { id, blob: result } : { id, ...result };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Pixel operation failed' };
+  } finally {
+    releaseImages(task);
+  }
+
+  self.postMessage(response);
+};
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -36,13 +37,71 @@ async function resizeImage(base64Data: string, maxDimension: number = 1000): Pro
   }
 }
 
+// Where the subject sits in the padded result, as 0-1 fractions, so the client can place the subject and not the padding
+// c_lpad centres the original; the padded size comes from the PNG header (width and height follow the 16-byte signature and IHDR tag)
+function getPaddedSubjectBounds(png: Uint8Array, subjectWidth: number, subjectHeight: number) {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const width = view.getUint32(16);
+  const height = view.getUint32(20);
+  return {
+    x: (width - subjectWidth) / 2 / width,
+    y: (height - subjectHeight) / 2 / height,
+    width: subjectWidth / width,
+    height: subjectHeight / height,
+  };
+}
+
+// Look up one of the caller's shadow presets ('default' picks their default preset)
+// Runs with the caller's JWT so row level security only ever exposes their own presets
+async function loadShadowPreset(req: Request, presetId: string) {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    throw new Error('Sign in to use shadow presets');
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  let query = supabase.from('shadow_presets').select('name, settings');
+  query = presetId === 'default' ? query.eq('is_default', true) : query.eq('id', presetId);
+  const { data, error } = await query.maybeSingle();
+
+  if (error) throw new Error(`Failed to load shadow preset: ${error.message}`);
+  if (!data) throw new Error(`Shadow preset not found: ${presetId}`);
+
+  console.log(`Using shadow preset "${data.name}"`);
+  return data.settings as { azimuth?: number; elevation?: number; spread?: number; color?: string; opacity?: number };
+}
+
+// Colour and opacity for e_dropshadow, which only draws a fixed grey shadow:
+// colourise and fade the whole shadowed image, then lay the untouched subject back on top.
+// Black at full opacity is e_dropshadow's own look, so it skips the chain (and the fringe the overlay leaves).
+// Keep in step with buildShadowStyleTransform in ShadowGenerationStep, which builds the live preview URL
+function buildShadowStyleTransform(publicId: string, color: string | null, opacity: number): string {
+  const hex = (color || '#000000').replace('#', '').toLowerCase();
+  if ((hex === '000000' || hex === '000') && opacity >= 1) return '';
+  return `/co_rgb:${hex},e_colorize:100/o_${Math.round(opacity * 100)}/l_${publicId.replace(/\//g, ':')}/fl_layer_apply,g_center`;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { images, uploadPreview, image, azimuth = 0, elevation = 90, spread = 5 } = await req.json();
+    const body = await req.json();
+    const { images, uploadPreview, image, presetId } = body;
+
+    // Explicit values win over the preset, the preset over the defaults
+    const preset = presetId && !uploadPreview ? await loadShadowPreset(req, presetId) : {};
+    const azimuth = body.azimuth ?? preset.azimuth ?? 0;
+    const elevation = body.elevation ?? preset.elevation ?? 90;
+    const spread = body.spread ?? preset.spread ?? 5;
+    const color = body.color ?? preset.color ?? null;
+    const opacity = body.opacity ?? preset.opacity ?? 1;
     
     const cloudName = Deno.env.get('CLOUDINARY_CLOUD_NAME');
     const apiKey = Deno.env.get('CLOUDINARY_API_KEY');
@@ -104,7 +163,13 @@ serve(async (req) => {
 
     for (let i = 0; i < images.length; i++) {
       const image = images[i];
-      console.log(`Processing image ${i + 1}/${images.length}: ${image.name}`);
+      // Images may carry their own settings, e.g. a wider spread for a flat product
+      const imageAzimuth = image.azimuth ?? azimuth;
+      const imageElevation = image.elevation ?? elevation;
+      const imageSpread = image.spread ?? spread;
+      const imageColor = image.color ?? color;
+      const imageOpacity = image.opacity ?? opacity;
+      console.log(`Processing image ${i + 1}/${images.length}: ${image.name} (azimuth=${imageAzimuth}, elevation=${imageElevation}, spread=${imageSpread})`);
 
       try {
         // Generate timestamp and signature for authenticated upload
@@ -142,14 +207,14 @@ serve(async (req) => {
 
         // Calculate padding multiplier - minimum 1.5x canvas size, scales with spread
         // For spread=5: 1.5x, for spread=50: 1.5x (max of formula), for spread=100: 2x
-        const paddingMultiplier = Math.max(1.5, 1 + (spread / 100));
-        console.log(`Using padding multiplier: ${paddingMultiplier}x for spread: ${spread}`);
+        const paddingMultiplier = Math.max(1.5, 1 + (imageSpread / 100));
+        console.log(`Using padding multiplier: ${paddingMultiplier}x for spread: ${imageSpread}`);
         
         // Apply padding BEFORE drop shadow transformation using VALID Cloudinary syntax
         // c_lpad: Letterbox pad with transparent background
         // w_iw_mul_X: Multiply original width by X (this syntax actually works!)
         // h_ih_mul_X: Multiply original height by X
-        const transformedUrl = `https://res.cloudinary.com/${cloudName}/image/upload/c_lpad,w_iw_mul_${paddingMultiplier},h_ih_mul_${paddingMultiplier},b_transparent/e_dropshadow:azimuth_${azimuth};elevation_${elevation};spread_${spread}/${uploadResult.public_id}.png`;
+        const transformedUrl = `https://res.cloudinary.com/${cloudName}/image/upload/c_lpad,w_iw_mul_${paddingMultiplier},h_ih_mul_${paddingMultiplier},b_transparent/e_dropshadow:azimuth_${imageAzimuth};elevation_${imageElevation};spread_${imageSpread}${buildShadowStyleTransform(uploadResult.public_id, imageColor, imageOpacity)}/${uploadResult.public_id}.png`;
         
         console.log(`Transformation URL: ${transformedUrl}`);
 
@@ -162,8 +227,9 @@ serve(async (req) => {
 
         const transformedBlob = await transformedResponse.blob();
         const arrayBuffer = await transformedBlob.arrayBuffer();
+        const pngBytes = new Uint8Array(arrayBuffer);
         const base64 = btoa(
-          new Uint8Array(arrayBuffer).reduce(
+          pngBytes.reduce(
             (data, byte) => data + String.fromCharCode(byte),
             ''
           )
@@ -174,6 +240,7 @@ serve(async (req) => {
         processedImages.push({
           name: image.name,
           shadowedData: shadowedDataUrl,
+          subjectBounds: getPaddedSubjectBounds(pngBytes, uploadResult.width, uploadResult.height),
         });
 
         console.log(`✅ Successfully added shadow to ${image.name}`);
@@ -121,10 +121,12 @@ serve(async (req) => {
 
       try {
         // Prepare the image data for Gemini
+        // Pass the real image type from the data URL prefix, JPEG when it is missing
+        const mimeType = image.data.match(/^data:(image\/[\w+.-]+);base64,/)?.[1] ?? "image/jpeg";
         const imageData = {
           inlineData: {
             data: image.data.split(',')[1], // Remove data:image/...;base64, prefix
-            mimeType: "image/jpeg"
+            mimeType
           }
         };
 
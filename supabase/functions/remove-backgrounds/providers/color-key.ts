@@ -0,0 +1,125 @@
+import { decode, Image } from "https://deno.land/x/imagescript@1.2.15/mod.ts";
+import { BackgroundRemovalProvider, ProviderOptions, bytesToPngDataUrl, dataUrlToBytes } from "./types.ts";
+
+const DEFAULT_TOLERANCE = 48; // RGB distance still treated as background
+const DEFAULT_SOFTNESS = 24; // RGB distance over which the matte fades from clear to solid
+const BORDER_SAMPLES = 64; // samples per edge when estimating the background colour
+
+type Rgb = [number, number, number];
+
+const parseHexColor = (value: unknown): Rgb | null => {
+  if (typeof value !== 'string') return null;
+  const match = /^#?([0-9a-f]{6})$/i.exec(value.trim());
+  if (!match) return null;
+  const hex = parseInt(match[1], 16);
+  return [(hex >> 16) & 255, (hex >> 8) & 255, hex & 255];
+};
+
+const readNumber = (value: unknown, fallback: number): number => {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// Product shots are framed with background on every side, so the border median is the backdrop colour
+const estimateBackgroundColor = (bitmap: Uint8ClampedArray, width: number, height: number): Rgb => {
+  const samples: Rgb[] = [];
+  const addSample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    samples.push([bitmap[i], bitmap[i + 1], bitmap[i + 2]]);
+  };
+
+  for (let s = 0; s < BORDER_SAMPLES; s++) {
+    const x = Math.floor((s / BORDER_SAMPLES) * width);
+    const y = Math.floor((s / BORDER_SAMPLES) * height);
+    addSample(x, 0);
+    addSample(x, height - 1);
+    addSample(0, y);
+    addSample(width - 1, y);
+  }
+
+  const median = (channel: number) => {
+    const values = samples.map(sample => sample[channel]).sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)];
+  };
+  return [median(0), median(1), median(2)];
+};
+
+/**
+ * Clear the background by flood filling from the border through pixels close to the key colour
+ * Only background connected to the edge is keyed, so product areas of a similar colour stay solid
+ */
+const keyOutBackground = (
+  bitmap: Uint8ClampedArray,
+  width: number,
+  height: number,
+  key: Rgb,
+  tolerance: number,
+  softness: number
+) => {
+  const reach = tolerance + softness;
+  const visited = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  const visit = (x: number, y: number) => {
+    const p = y * width + x;
+    if (visited[p]) return;
+    visited[p] = 1;
+
+    const i = p * 4;
+    const distance = Math.hypot(bitmap[i] - key[0], bitmap[i + 1] - key[1], bitmap[i + 2] - key[2]);
+    if (distance > reach) return;
+
+    const coverage = softness > 0 ? Math.min(1, Math.max(0, (distance - tolerance) / softness)) : 0;
+    bitmap[i + 3] = Math.round(bitmap[i + 3] * coverage);
+    // Partially covered pixels are the subject's edge, so the fill stops there
+    if (coverage === 0) queue[tail++] = p;
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x, 0);
+    visit(x, height - 1);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(0, y);
+    visit(width - 1, y);
+  }
+
+  while (head < tail) {
+    const p = queue[head++];
+    const x = p % width;
+    const y = (p - x) / width;
+    if (x > 0) visit(x - 1, y);
+    if (x < width - 1) visit(x + 1, y);
+    if (y > 0) visit(x, y - 1);
+    if (y < height - 1) visit(x, y + 1);
+  }
+};
+
+/**
+ * Deterministic colour-key matte for photos on a plain backdrop
+ * Needs no credentials, so the workflow can be developed and tested offline
+ * Options: keyColor ('#rrggbb', estimated from the border when omitted), tolerance, softness
+ */
+export const colorKeyProvider: BackgroundRemovalProvider = {
+  id: 'color-key',
+  label: 'Local colour key',
+  isConfigured: () => true,
+
+  removeBackground: async (image, options: ProviderOptions) => {
+    const decoded = await decode(dataUrlToBytes(image.data));
+    if (!(decoded instanceof Image)) {
+      throw new Error(`Unsupported image format for ${image.name}`);
+    }
+
+    const { width, height, bitmap } = decoded;
+    const key = parseHexColor(options.keyColor) ?? estimateBackgroundColor(bitmap, width, height);
+    const tolerance = readNumber(options.tolerance, DEFAULT_TOLERANCE);
+    const softness = readNumber(options.softness, DEFAULT_SOFTNESS);
+
+    console.log(`Keying ${image.name} (${width}x${height}) against rgb(${key.join(', ')}), tolerance ${tolerance}, softness ${softness}`);
+    keyOutBackground(bitmap, width, height, key, tolerance, softness);
+
+    return bytesToPngDataUrl(await decoded.encode());
+  }
+};
@@ -0,0 +1,26 @@
+import { BackgroundRemovalProvider } from "./types.ts";
+import { replicateProvider } from "./replicate.ts";
+import { colorKeyProvider } from "./color-key.ts";
+
+export type { BackgroundRemovalProvider, ProviderOptions, RemovalImage } from "./types.ts";
+
+// New vendors only need an entry here; the request/response contract stays the same
+const PROVIDERS: BackgroundRemovalProvider[] = [replicateProvider, colorKeyProvider];
+
+/**
+ * Pick the provider for a request: the one asked for, then BACKGROUND_REMOVAL_PROVIDER, then Replicate
+ * There is no silent fallback: a provider without credentials fails the request, so a missing production secret
+ * never turns into colour-key cutouts. Set BACKGROUND_REMOVAL_PROVIDER=color-key to develop without Replicate.
+ */
+export const resolveProvider = (requested?: string): BackgroundRemovalProvider => {
+  const id = requested || Deno.env.get('BACKGROUND_REMOVAL_PROVIDER') || replicateProvider.id;
+  const provider = PROVIDERS.find(p => p.id === id);
+
+  if (!provider) {
+    throw new Error(`Unknown background removal provider "${id}". Available: ${PROVIDERS.map(p => p.id).join(', ')}`);
+  }
+  if (!provider.isConfigured()) {
+    throw new Error(`Background removal provider "${provider.label}" is not configured (set its credentials, or BACKGROUND_REMOVAL_PROVIDER=color-key for local development)`);
+  }
+  return provider;
+};
@@ -0,0 +1,64 @@
+import Replicate from "https://esm.sh/replicate@0.25.2";
+import { BackgroundRemovalProvider, bytesToPngDataUrl } from "./types.ts";
+
+// 851-labs Background Remover model
+const MODEL = "851-labs/background-remover:a029dff38972b5fda4ec5d75d7d1cd25aeff621d2cf4946a41055d7db66b80bc";
+
+const fetchAsDataUrl = async (url: string): Promise<string> => {
+  const imageResponse = await fetch(url);
+  return bytesToPngDataUrl(await imageResponse.arrayBuffer());
+};
+
+// Replicate models answer with a URL, a data URL, raw bytes or an array of those
+const outputToDataUrl = async (output: unknown): Promise<string> => {
+  if (typeof output === 'string' && output.startsWith('http')) {
+    console.log('Processing URL response');
+    return fetchAsDataUrl(output);
+  }
+  if (typeof output === 'string' && output.startsWith('data:')) {
+    console.log('Processing data URL response');
+    return output;
+  }
+  if (output instanceof ArrayBuffer || output instanceof Uint8Array) {
+    console.log('Processing binary data response');
+    return bytesToPngDataUrl(output);
+  }
+  if (Array.isArray(output) && output.length > 0) {
+    console.log('Processing array response, using first item');
+    return outputToDataUrl(output[0]);
+  }
+
+  console.error(`Unexpected output format: ${typeof output}`, output);
+  throw new Error(`Unexpected output format: ${typeof output}`);
+};
+
+export const replicateProvider: BackgroundRemovalProvider = {
+  id: 'replicate',
+  label: 'Replicate',
+  isConfigured: () => Boolean(Deno.env.get('REPLICATE_API_KEY')),
+
+  removeBackground: async (image) => {
+    const apiKey = Deno.env.get('REPLICATE_API_KEY');
+    if (!apiKey) {
+      throw new Error('REPLICATE_API_KEY not found');
+    }
+
+    const replicate = new Replicate({ auth: apiKey });
+    console.log(`Image data length: ${image.data.length}`);
+
+    const output = await replicate.run(MODEL, {
+      input: {
+        image: image.data,
+        format: "png",
+        background_type: "rgba"
+      }
+    });
+
+    console.log(`Replicate output type: ${typeof output}`);
+    if (!output) {
+      throw new Error('No output received from Replicate API');
+    }
+
+    return outputToDataUrl(output);
+  }
+};
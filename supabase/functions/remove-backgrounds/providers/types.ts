@@ -0,0 +1,32 @@
+import { encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+
+export interface RemovalImage {
+  data: string; // base64 image data URL
+  name: string;
+}
+
+// Provider-specific settings passed through from the request, e.g. keyColor for color-key
+export type ProviderOptions = Record<string, unknown>;
+
+export interface BackgroundRemovalProvider {
+  id: string;
+  label: string;
+  // Whether the provider has the credentials it needs; requests to one that doesn't fail up front
+  isConfigured: () => boolean;
+  // Returns the cutout as a transparent PNG data URL
+  removeBackground: (image: RemovalImage, options: ProviderOptions) => Promise<string>;
+}
+
+export const bytesToPngDataUrl = (bytes: Uint8Array | ArrayBuffer): string => {
+  return `data:image/png;base64,${encode(bytes)}`;
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const base64 = dataUrl.includes(',') ? dataUrl.split(',')[1] : dataUrl;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
@@ -0,0 +1,4 @@
+-- Floor line of each backdrop, in pixels from the top of the image
+-- Used to snap products onto the surface during positioning
+ALTER TABLE public.backdrop_library
+ADD COLUMN IF NOT EXISTS floor_y_px INTEGER;
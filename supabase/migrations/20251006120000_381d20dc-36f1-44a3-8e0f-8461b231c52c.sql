@@ -0,0 +1,4 @@
+-- Scale calibration of each backdrop: how many backdrop pixels one centimetre spans at the floor line
+-- Used to size products by their real dimensions so they keep relative size across a catalog
+ALTER TABLE public.backdrop_library
+ADD COLUMN IF NOT EXISTS pixels_per_cm NUMERIC;
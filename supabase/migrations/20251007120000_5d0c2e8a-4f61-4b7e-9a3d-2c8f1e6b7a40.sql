@@ -0,0 +1,47 @@
+-- Named shadow settings per user, so a house look can be reused across batches
+-- settings holds the shadow step's parameters: {engine, azimuth, elevation, spread, opacity, softness}
+CREATE TABLE public.shadow_presets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  settings JSONB NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- At most one default preset per user
+CREATE UNIQUE INDEX shadow_presets_one_default_per_user
+ON public.shadow_presets (user_id)
+WHERE is_default;
+
+-- Enable RLS
+ALTER TABLE public.shadow_presets ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own shadow presets" 
+ON public.shadow_presets 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own shadow presets" 
+ON public.shadow_presets 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own shadow presets" 
+ON public.shadow_presets 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own shadow presets" 
+ON public.shadow_presets 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_shadow_presets_updated_at
+BEFORE UPDATE ON public.shadow_presets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,4 @@
+-- Shadow presets gained a colour and a ground tint with the opacity/colour controls;
+-- older presets lack them and are filled in with defaults when loaded
+COMMENT ON COLUMN public.shadow_presets.settings IS
+  'Shadow step parameters: {engine, azimuth, elevation, spread, opacity, softness, color, groundTint}. color is #rrggbb, groundTint is 0-1. Missing keys take their defaults.';